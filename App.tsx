@@ -1,49 +1,197 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { BoardNode, GateType, GameState, Player, PlayerId } from './types';
-import { generateInputs, evaluateBoard, getRandomGate, checkWinCondition, BOARD_SIZE } from './services/logicService';
-import { getCommentary, getAIMove, generateGateImage } from './services/geminiService';
-import { GameBoard } from './components/GameBoard';
-import { GateCard } from './components/GateCard';
-import { Zap, Cpu, RefreshCw, Trophy, RotateCcw } from 'lucide-react';
-
-const INITIAL_HAND_SIZE = 3;
-
-// Initial Players Setup
-const createPlayer = (id: PlayerId, isAI: boolean): Player => ({
-  id,
-  name: isAI ? 'Cortex (AI)' : (id === 'P1' ? 'Player 1' : 'Player 2'),
-  targetValue: id === 'P1' ? 1 : 0,
-  color: id === 'P1' ? 'blue' : 'red',
-  hand: Array.from({ length: INITIAL_HAND_SIZE }, () => getRandomGate()),
-});
-
-const INITIAL_BOARD: BoardNode[] = Array.from({ length: BOARD_SIZE }, (_, i) => ({
-  id: i,
-  gate: null,
-  value: null,
-}));
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { GateType, GameAction, GameState, PlayerId, SolverLevel, CommentaryLine, MatchRecord, DeckEmptyRule, Puzzle, LLMSettings, CardArt, AudioSettings, CircuitLayout, OnlineView, TimeoutRule, ActionCardType, PeekRecord, ActionError } from './types';
+import { createGame, validateAction, listLegalActions, describeAction, getOpponent, GameOptions } from './services/gameEngine';
+import { UndoStack, createUndoStack, currentState, commitAction, canUndo, canRedo, undo, redo, undoToPlayer, redoToPlayer } from './services/undoService';
+import { describeSolverLevel, isSolverLevelAvailable, requestSolverMove } from './services/solverService';
+import { MIN_DEPTH, MAX_DEPTH, DEFAULT_DEPTH } from './services/logicService';
+import { dailySeed, isDailySeed } from './services/randomService';
+import { DECK_PRESETS, DECK_EMPTY_RULES } from './services/deckService';
+import { TIME_CONTROL_PRESETS, TIMEOUT_RULES, describeTimeControl, formatClock } from './services/clockService';
+import { createMatchRecord, serializeMatchRecord, matchRecordFileName, parseMatchRecord } from './services/matchRecordService';
+import { createPuzzleGame, loadPuzzleProgress, recordPuzzleSolved } from './services/puzzleService';
+import { BUILTIN_PUZZLES } from './services/puzzleLibrary';
+import { parseLayout, treeLayout } from './services/layoutService';
+import { BUILTIN_LAYOUTS } from './services/layoutLibrary';
+import { isAnalysisAvailable, analyzePlacements, bestOutcomes, getRootRange } from './services/analysisService';
+import { getCommentary, generateGateImage, loadLLMSettings, applyLLMSettings } from './services/llmService';
+import { chooseCortexMove } from './services/cortexService';
+import { gateFaces, loadCardArt, saveCardArt } from './services/gateArtService';
+import { OnlineClient, OnlineSession, OnlineStatus, createOnlineClient, loadOnlineSession } from './services/onlineService';
+import { ACTION_CARD_RULES, isActionCard, isGateCard } from './services/actionCardService';
+import { Footprint } from './services/expressionService';
+import { ExportFormat, EXPORT_FORMATS, exportCircuit, exportFileName } from './services/circuitExportService';
+import { SavedMatch, AUTOSAVE_ID, createSave, restoreSave, loadSaves, writeSave, deleteSave, newSaveId, describeSave } from './services/saveService';
+import { SoundCue, playCue, playAction, playPropagation, unlockAudio, loadAudioSettings, applyAudioSettings } from './services/audioService';
+import { PropagationTimeline, SLOW_MOTION_FACTOR, simulatePropagation } from './services/propagationService';
+import { announceMove } from './services/accessibilityService';
+import { SharedPosition, sharePosition, encodePosition, decodePosition, positionToState, shareUrl, readSharedCode } from './services/shareService';
+import { GameBoard, BOARD_TARGET_ATTRIBUTE } from './components/GameBoard';
+import { HandCard } from './components/HandCard';
+import { ReplayViewer } from './components/ReplayViewer';
+import { DeckPanel } from './components/DeckPanel';
+import { PuzzleSelect } from './components/PuzzleSelect';
+import { SettingsPanel } from './components/SettingsPanel';
+import { OnlineLobby } from './components/OnlineLobby';
+import { ExpressionPanel } from './components/ExpressionPanel';
+import { SpectatorView } from './components/SpectatorView';
+import { Zap, Cpu, RefreshCw, Trophy, RotateCcw, Brain, Calendar, Copy, Download, Upload, Film, Undo2, Redo2, Lock, LockOpen, Puzzle as PuzzleIcon, Lightbulb, Settings, Globe, LogOut, Eye, EyeOff, FileCode, Save, Home, Play, Trash2, Link, Volume2, VolumeX, Snail } from 'lucide-react';
+
+const SOLVER_LEVELS: SolverLevel[] = ['EASY', 'MEDIUM', 'HARD', 'PERFECT'];
+const TIMEOUT_RULE_LABELS: Record<TimeoutRule, string> = {
+  AUTO_DISCARD: 'AUTO-DISCARD',
+  RANDOM_PLACE: 'RANDOM PLACEMENT',
+  LOSS: 'LOSS',
+};
+const DEPTHS = Array.from({ length: MAX_DEPTH - MIN_DEPTH + 1 }, (_, i) => MIN_DEPTH + i);
+
+// Online there is no live commentary; the box reports the connection instead
+const onlineCommentary = (view: OnlineView, status: OnlineStatus | null, error: string | null): string => {
+  if (error) return error;
+  if (status === 'RECONNECTING') return 'Connection lost. Reconnecting...';
+  if (status === 'CLOSED') return 'Disconnected. This seat was taken over by another tab.';
+  if (view.opponent === 'DISCONNECTED') return 'Opponent disconnected. Waiting for them to come back...';
+  if (view.opponent === 'LEFT') return 'Opponent left the room.';
+  if (view.state.winner) return 'Match over. Ask for a rematch or leave the room.';
+  if (view.state.moves.length === 0) return `Room ${view.room}. The Architect (P1) moves first.`;
+  return view.state.currentPlayer === view.you ? 'Your move.' : 'Waiting for the opponent...';
+};
+
+// Save text as a file through a temporary link
+const downloadFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// One player's chess clock; red in the last ten seconds
+const ClockFace: React.FC<{ ms: number; running: boolean }> = ({ ms, running }) => (
+  <span className={`font-mono text-sm ${ms < 10_000 ? 'text-red-400' : running ? 'text-white' : 'text-gray-500'} ${running && ms < 10_000 ? 'animate-pulse' : ''}`}>
+    {formatClock(ms)}
+  </span>
+);
+
+// A hand this screen may not show: card backs and a count, and what the
+// viewer last saw of it with a PEEK
+const HiddenHand: React.FC<{ count: number; peek?: PeekRecord | null }> = ({ count, peek }) => (
+  <>
+    {Array.from({ length: count }, (_, i) => (
+      <div key={i} className="w-20 h-28 md:w-28 md:h-40 rounded-xl border-2 border-gray-700 bg-gray-800 circuit-grid opacity-60" />
+    ))}
+    <span className="w-full text-[10px] font-mono text-gray-500">{count} CARDS, FACE DOWN</span>
+    {peek && (
+      <div className="w-full mt-2 pt-2 border-t border-gray-800">
+        <span className="block mb-2 text-[10px] font-mono text-violet-300">PEEKED ON TURN {peek.turn + 1}:</span>
+        <div className="flex flex-wrap gap-1">
+          {peek.hand.map((card, i) => (
+            <span key={i} className="px-1.5 py-0.5 rounded bg-gray-800 text-[10px] font-mono text-gray-300">{card}</span>
+          ))}
+        </div>
+      </div>
+    )}
+  </>
+);
 
 function App() {
   const [gameStarted, setGameStarted] = useState(false);
-  const [isAI, setIsAI] = useState(false);
-  const [board, setBoard] = useState<BoardNode[]>(INITIAL_BOARD);
-  const [inputs, setInputs] = useState<(0 | 1)[]>([]);
-  const [players, setPlayers] = useState<Record<PlayerId, Player>>({
-    P1: createPlayer('P1', false),
-    P2: createPlayer('P2', false),
-  });
-  const [turn, setTurn] = useState<PlayerId>('P1');
-  const [winner, setWinner] = useState<PlayerId | 'DRAW' | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoStack>(() => createUndoStack(createGame({ isAI: false })));
+  const [solverLevel, setSolverLevel] = useState<SolverLevel>('MEDIUM');
+  const [depth, setDepth] = useState(DEFAULT_DEPTH);
+  const [layout, setLayout] = useState<CircuitLayout | null>(null); // null: a tree of the chosen depth
+  const [layouts, setLayouts] = useState(BUILTIN_LAYOUTS);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [isDaily, setIsDaily] = useState(false);
+  const [deckPreset, setDeckPreset] = useState('STANDARD');
+  const [deckEmptyRule, setDeckEmptyRule] = useState<DeckEmptyRule>('RESHUFFLE');
+  const [hiddenHands, setHiddenHands] = useState(true); // Only the mover's own cards are face up
+  const [handoff, setHandoff] = useState<PlayerId | null>(null); // Hot-seat: the device is being passed to this player
+  const [timePreset, setTimePreset] = useState('UNTIMED');
+  const [timeoutRule, setTimeoutRule] = useState<TimeoutRule>('AUTO_DISCARD');
+  const [commentaryPending, setCommentaryPending] = useState(false);
+  const [clockNow, setClockNow] = useState(Date.now); // Re-renders the running clock
+  // Time spent on the current turn: banked while paused, plus the running stretch
+  const turnTime = useRef<{ spentMs: number; since: number | null }>({ spentMs: 0, since: null });
+  const [lastOptions, setLastOptions] = useState<GameOptions>({ isAI: false });
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [activePuzzle, setActivePuzzle] = useState<Puzzle | null>(null);
+  const [puzzleProgress, setPuzzleProgress] = useState(loadPuzzleProgress);
   const [selectedCardIndex, setSelectedCardIndex] = useState<number | null>(null);
-  const [commentary, setCommentary] = useState<string>("System initialized. Waiting for input.");
+  const [overwriteGateIndex, setOverwriteGateIndex] = useState<number | null>(null); // Gate chosen for a selected OVERWRITE
+  const [highlight, setHighlight] = useState<Footprint | null>(null); // Expression term under the pointer
+  const [propagation, setPropagation] = useState<PropagationTimeline | null>(null); // Signals of the last move, animated on the board
+  const [slowMotion, setSlowMotion] = useState(false);
+  const [announcement, setAnnouncement] = useState(''); // Last move, for screen readers
+  const [moveError, setMoveError] = useState<ActionError | null>(null); // Why the last attempted move was refused
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [commentaryLog, setCommentaryLog] = useState<CommentaryLine[]>([]);
+  const [takeBackRequest, setTakeBackRequest] = useState<PlayerId | null>(null);
+  const [replay, setReplay] = useState<MatchRecord | null>(null);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const [saves, setSaves] = useState<SavedMatch[]>([]); // Read when the start screen shows
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveName, setSaveName] = useState<string | null>(null); // Name being typed for a new save slot
+  const [spectating, setSpectating] = useState<SharedPosition | null>(null); // Position opened from a link
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [shareMenu, setShareMenu] = useState<'OPEN' | 'COPIED' | 'COPIED_REDACTED' | null>(null);
   const [isThinking, setIsThinking] = useState(false);
+  const [cardArt, setCardArt] = useState<CardArt>(loadCardArt);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
   const [gateImages, setGateImages] = useState<Record<string, string>>({});
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showOnline, setShowOnline] = useState(false);
+  const [online, setOnline] = useState<OnlineClient | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<OnlineStatus | null>(null);
+  const [onlineView, setOnlineView] = useState<OnlineView | null>(null); // Set while in an online room
+  const [onlineError, setOnlineError] = useState<string | null>(null);
+
+  // Online, the relay server owns the game and sends this seat's view of it
+  const game = onlineView ? onlineView.state : currentState(undoStack);
+  const { board, inputs, players, currentPlayer: turn, winner, isAI, aiEngine, aiLevel, seed, puzzle } = game;
+  const selectedCard = selectedCardIndex !== null ? players[turn].hand[selectedCardIndex] ?? null : null;
 
-  // Generate images on load
+  // The move the selected card makes on a target, or null if it needs another one
+  const cardAction = ({ slotId, inputIndex }: { slotId?: number; inputIndex?: number }): GameAction | null => {
+    if (selectedCard === null || selectedCardIndex === null) return null;
+    const move = { playerId: turn, handIndex: selectedCardIndex };
+    switch (selectedCard) {
+      case ActionCardType.OVERWRITE:
+        return slotId === undefined || overwriteGateIndex === null ? null : { type: 'OVERWRITE', ...move, slotId, gateIndex: overwriteGateIndex };
+      case ActionCardType.LOCK:
+        return slotId === undefined ? null : { type: 'LOCK', ...move, slotId };
+      case ActionCardType.FLIP:
+        return inputIndex === undefined ? null : { type: 'FLIP', ...move, inputIndex };
+      case ActionCardType.PEEK:
+        return slotId === undefined && inputIndex === undefined ? { type: 'PEEK', ...move } : null;
+      default:
+        return slotId === undefined ? null : { type: 'PLACE', ...move, slotId };
+    }
+  };
+  // A hidden hand is seen from the other seat, so it shows that seat's PEEK
+  const peekOf = (id: PlayerId) => game.peeks[getOpponent(id)];
+
+  // A new card selection (or a played move) drops the chosen OVERWRITE gate
+  useEffect(() => setOverwriteGateIndex(null), [selectedCardIndex, game]);
+
+  // Lines for moves that were undone stay in the log (for redo) but are hidden
+  const visibleCommentary = onlineView ? [] : commentaryLog.filter(c => c.turn <= game.turnCount);
+  const commentary = onlineView ? onlineCommentary(onlineView, onlineStatus, onlineError) : visibleCommentary.at(-1)?.text ?? "System initialized. Waiting for input.";
+
+  // Procedural faces by default. The AI skin is fetched (or read from the
+  // cache) on load and whenever the backend changes; procedural faces stand
+  // in until it arrives and for any gate it fails on.
   useEffect(() => {
+    const faces = gateFaces(cardArt === 'IEC' ? 'IEC' : 'ANSI');
+    setGateImages(faces);
+    if (cardArt !== 'AI') return;
+
+    let cancelled = false; // A newer backend took over before this one answered
     const loadImages = async () => {
       const types = Object.values(GateType);
-      const newImages: Record<string, string> = {};
+      const newImages: Record<string, string> = { ...faces };
       
       // Load in parallel
       await Promise.all(types.map(async (type) => {
@@ -53,210 +201,779 @@ function App() {
         }
       }));
       
-      setGateImages(newImages);
+      if (!cancelled) setGateImages(newImages);
     };
 
-    if (Object.keys(gateImages).length === 0) {
-      loadImages();
+    loadImages();
+    return () => { cancelled = true; };
+  }, [llmSettings, cardArt]);
+
+  const saveSettings = (settings: LLMSettings, art: CardArt, audio: AudioSettings) => {
+    applyLLMSettings(settings);
+    saveCardArt(art);
+    changeAudio(audio);
+    setLLMSettings(settings);
+    setCardArt(art);
+    setShowSettings(false);
+  };
+
+  // Stingers are heard from this screen's seat: online your own, against an
+  // AI or in a puzzle P1's. A hot-seat game always ends in someone's win.
+  const outcomeCue = (result: PlayerId | 'DRAW'): SoundCue => {
+    if (result === 'DRAW') return 'draw';
+    const seat = onlineView?.you ?? (isAI || puzzle ? 'P1' : null);
+    return seat === null || seat === result ? 'win' : 'loss';
+  };
+
+  const changeAudio = (audio: AudioSettings) => {
+    applyAudioSettings(audio);
+    setAudioSettings(audio);
+  };
+
+  // Circuit, seed and deck chosen on the start screen. The daily circuit pins them all.
+  const menuOptions = (options: GameOptions): GameOptions => ({
+    ...options,
+    depth: isDaily ? DEFAULT_DEPTH : depth,
+    layout: isDaily ? undefined : layout ?? undefined,
+    seed: isDaily ? dailySeed() : seedInput,
+    deckComposition: DECK_PRESETS[isDaily ? 'STANDARD' : deckPreset],
+    deckEmptyRule: isDaily ? 'RESHUFFLE' : deckEmptyRule,
+    timeControl: timePreset in TIME_CONTROL_PRESETS ? { ...TIME_CONTROL_PRESETS[timePreset], timeoutRule } : undefined,
+  });
+
+  // Show a commentary line and keep it for the match record
+  const addCommentary = (turn: number, text: string) => {
+    setCommentaryLog(prev => [...prev, { turn, text }]);
+  };
+
+  // With hidden hands, every change of turn in hot-seat play hides the
+  // screen until the next player takes the device
+  const passDevice = (next: GameState) => {
+    setHandoff(hiddenHands && !next.isAI && !next.puzzle && !next.winner ? next.currentPlayer : null);
+  };
+
+  const startGame = (options: GameOptions) => {
+    let next: GameState;
+    try {
+      next = createGame(options);
+    } catch (err) {
+      // The chosen deck can't fill the chosen circuit
+      setLayoutError(err instanceof Error ? err.message : 'Could not start the game.');
+      return;
     }
-  }, []);
+    setLayoutError(null);
+    setLastOptions(options);
+    setActivePuzzle(null);
+    setUndoStack(createUndoStack(next));
+    passDevice(next);
+    setTakeBackRequest(null);
+    setCommentaryLog([]);
+    addCommentary(0, "Match started. The Architect (P1) moves first.");
+    setGameStarted(true);
+    setSelectedCardIndex(null);
+  };
 
-  // Sound effects (simulated)
-  const playSound = (type: 'place' | 'win' | 'select' | 'discard') => {
-    // In a real app, use Audio API. Here we just log or ignore.
+  // Pick a saved match up where it was left. An AI turn that was cut off by
+  // a reload is simply played again, since nothing of it was applied.
+  const resumeSave = (save: SavedMatch) => {
+    let stack: UndoStack;
+    try {
+      stack = restoreSave(save);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Could not restore the save.');
+      return;
+    }
+    setSaveError(null);
+    setLastOptions(save.options);
+    setActivePuzzle(null);
+    setUndoStack(stack);
+    passDevice(currentState(stack));
+    setTakeBackRequest(null);
+    setCommentaryLog(save.commentary);
+    setIsThinking(false);
+    setGameStarted(true);
+    setSelectedCardIndex(null);
   };
 
-  const startGame = (aiMode: boolean) => {
-    setIsAI(aiMode);
-    setBoard(INITIAL_BOARD);
-    setInputs(generateInputs());
-    setPlayers({
-      P1: createPlayer('P1', false),
-      P2: createPlayer('P2', aiMode),
-    });
-    setTurn('P1');
-    setWinner(null);
-    setCommentary("Match started. The Architect (P1) moves first.");
+  // Play on from a shared position as a new hot-seat game. Links without a
+  // seed can't be forked: their draw pile is unknown.
+  const forkPosition = (position: SharedPosition) => {
+    if (position.seed === null) return;
+    const next = positionToState(position);
+    setLastOptions({ isAI: false, seed: position.seed, layout: position.layout, deckComposition: position.deck.composition, deckEmptyRule: position.deck.emptyRule });
+    setActivePuzzle(null);
+    setUndoStack(createUndoStack(next));
+    passDevice(next);
+    setTakeBackRequest(null);
+    setCommentaryLog([]);
+    addCommentary(next.turnCount, "Forked from a shared position.");
+    setIsThinking(false);
+    setGameStarted(true);
+    setSelectedCardIndex(null);
+    closeSpectator();
+  };
+
+  const closeSpectator = () => {
+    setSpectating(null);
+    history.replaceState(null, '', location.pathname + location.search);
+  };
+
+  const copyLink = (redactHands: boolean) => {
+    const position = sharePosition(game, redactHands);
+    navigator.clipboard?.writeText(shareUrl(encodePosition(position))).catch(() => {});
+    setShareMenu(position.seed === null ? 'COPIED_REDACTED' : 'COPIED');
+  };
+
+  // Re-read the saves, telling the player about any that had to be set aside
+  const refreshSaves = () => {
+    const { saves: readable, dropped } = loadSaves();
+    setSaves(readable);
+    if (dropped.length > 0) {
+      setSaveError(`Set aside ${dropped.length === 1 ? 'a save' : `${dropped.length} saves`} that could not be loaded. ${dropped.join(' ')}`);
+    }
+  };
+
+  const saveToSlot = () => {
+    const name = saveName?.trim() || `Match ${new Date().toLocaleString()}`;
+    if (!writeSave(createSave(newSaveId(), name, undoStack, commentaryLog, lastOptions))) {
+      setSaveError('Could not save: browser storage is full or disabled.');
+      return;
+    }
+    setSaveError(null);
+    refreshSaves();
+    setSaveName(null);
+  };
+
+  const removeSave = (id: string) => {
+    deleteSave(id);
+    refreshSaves();
+  };
+
+  const startPuzzle = (next: Puzzle) => {
+    setActivePuzzle(next);
+    setUndoStack(createUndoStack(createPuzzleGame(next)));
+    setHandoff(null);
+    setTakeBackRequest(null);
+    setCommentaryLog([]);
+    addCommentary(0, next.description ?? `Crack the lock: drive the output to ${next.target}.`);
+    setShowPuzzles(false);
     setGameStarted(true);
     setSelectedCardIndex(null);
   };
 
+  // Replays the same setup: a typed or daily seed gives the same circuit again,
+  // otherwise a fresh random seed is rolled. Puzzles restart from scratch.
   const resetGame = () => {
-    startGame(isAI);
+    if (activePuzzle) startPuzzle(activePuzzle);
+    else startGame(lastOptions);
+  };
+
+  const backToPuzzles = () => {
+    setGameStarted(false);
+    setShowPuzzles(true);
+  };
+
+  // One connection per visit to the lobby; the room and seat come from the server
+  const connectOnline = (url: string): OnlineClient => {
+    online?.leave();
+    setOnlineError(null);
+    const client = createOnlineClient(url, {
+      onStatus: setOnlineStatus,
+      onJoined: () => setOnlineError(null),
+      onView: view => {
+        setOnlineView(view);
+        setOnlineError(null);
+        setSelectedCardIndex(null);
+        // The game screen opens once both seats are filled
+        if (view.opponent !== 'WAITING') setGameStarted(true);
+      },
+      onError: setOnlineError,
+    });
+    setOnline(client);
+    return client;
+  };
+
+  const createRoom = (url: string) => {
+    const { depth: d, layout: l, deckComposition, deckEmptyRule: emptyRule } = menuOptions({ isAI: false });
+    connectOnline(url).createRoom({ depth: d, layout: l, deckComposition, deckEmptyRule: emptyRule });
+  };
+
+  const joinRoom = (url: string, room: string) => {
+    connectOnline(url).joinRoom(room);
+  };
+
+  const resumeRoom = (session: OnlineSession) => {
+    connectOnline(session.url).resume(session);
+  };
+
+  const leaveOnline = () => {
+    online?.leave();
+    setOnline(null);
+    setOnlineView(null);
+    setOnlineStatus(null);
+    setOnlineError(null);
+    setShowOnline(false);
+    setGameStarted(false);
+    setSelectedCardIndex(null);
+  };
+
+  const copySeed = () => {
+    navigator.clipboard?.writeText(seed).catch(() => {});
+  };
+
+  // Online games always start from a fresh deal; local ones from the bottom
+  // of the undo stack, which is mid-game for a fork
+  const matchRecord = () => createMatchRecord(game, visibleCommentary, onlineView ? null : undoStack.states[0]);
+
+  const downloadRecord = () => {
+    const record = matchRecord();
+    downloadFile(matchRecordFileName(record), serializeMatchRecord(record), 'application/json');
+  };
+
+  const downloadCircuit = (format: ExportFormat) => {
+    downloadFile(exportFileName(format, seed), exportCircuit(format, board, inputs), EXPORT_FORMATS[format].mimeType);
+  };
+
+  const watchReplay = () => {
+    setReplay(matchRecord());
+  };
+
+  const handleRecordUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      setReplay(parseMatchRecord(await file.text()));
+      setRecordError(null);
+    } catch (err) {
+      setRecordError(err instanceof Error ? err.message : 'Could not read match record.');
+    }
+  };
+
+  // A file may hold one layout or a list of them; the first one is selected
+  const handleLayoutUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      const loaded = (Array.isArray(data) ? data : [data]).map(parseLayout);
+      if (loaded.length === 0) throw new Error('File holds no layouts.');
+      setLayouts(prev => [...prev.filter(l => !loaded.some(n => n.id === l.id)), ...loaded]);
+      setLayout(loaded[0]);
+      setLayoutError(null);
+    } catch (err) {
+      setLayoutError(err instanceof SyntaxError ? 'File is not valid JSON.' : err instanceof Error ? err.message : 'Could not read layout file.');
+    }
   };
 
   const handleCardSelect = (index: number) => {
     if (winner || isThinking) return;
     // Only current player can select
     if (isAI && turn === 'P2') return;
-    
+    if (onlineView && turn !== onlineView.you) return;
+
+    // With an OVERWRITE selected, clicking a gate picks what goes into the slot
+    const hand = players[turn].hand;
+    if (selectedCard === ActionCardType.OVERWRITE && index !== selectedCardIndex && isGateCard(hand[index])) {
+      setOverwriteGateIndex(overwriteGateIndex === index ? null : index);
+      playCue('select');
+      return;
+    }
+
     if (selectedCardIndex === index) {
       setSelectedCardIndex(null); // Deselect
     } else {
       setSelectedCardIndex(index);
-      playSound('select');
+      playCue('select');
     }
   };
 
-  const handleSlotClick = async (slotId: number) => {
+  const handleSlotClick = (slotId: number) => {
     if (winner || isThinking) return;
-    if (selectedCardIndex === null) return;
-    
-    // Check if slot is empty
-    if (board[slotId].gate !== null) return;
-
-    const currentPlayer = players[turn];
-    const gateToPlace = currentPlayer.hand[selectedCardIndex];
+    const action = cardAction({ slotId });
+    if (action) executeMove(action);
+  };
 
-    await executeMove('PLACE', turn, slotId, gateToPlace, selectedCardIndex);
+  const handleInputClick = (inputIndex: number) => {
+    if (winner || isThinking) return;
+    const action = cardAction({ inputIndex });
+    if (action) executeMove(action);
   };
 
-  const handleDiscardHand = async () => {
+  const handleDiscardHand = () => {
     if (winner || isThinking) return;
     // If it's AI turn, only AI calls this.
     // If it's Human turn, button calls this.
-    await executeMove('DISCARD', turn);
-  };
-
-  const executeMove = async (
-    actionType: 'PLACE' | 'DISCARD', 
-    playerId: PlayerId, 
-    slotId?: number, 
-    gate?: GateType, 
-    handIndexToRemove?: number | null
-  ) => {
-    setIsThinking(true);
-    
-    let moveDescription = "";
-    let rootVal: 0 | 1 | null = board[0].value;
-
-    if (actionType === 'PLACE' && slotId !== undefined && gate && handIndexToRemove !== null && handIndexToRemove !== undefined) {
-      // 1. Update Board
-      const newBoard = [...board];
-      newBoard[slotId] = { ...newBoard[slotId], gate };
-      
-      // 2. Evaluate Circuit
-      const evaluatedBoard = evaluateBoard(newBoard, inputs);
-      setBoard(evaluatedBoard);
-      playSound('place');
-      rootVal = evaluatedBoard[0].value;
-
-      // 3. Check Win
-      const winResult = checkWinCondition(evaluatedBoard);
-      if (winResult) {
-        setWinner(winResult);
-        setIsThinking(false);
-        setCommentary(winResult === 'DRAW' ? "Circuit overloaded! It's a DRAW!" : `${players[winResult].name} dominates the grid!`);
-        return; // Game over
-      }
-
-      // 4. Update Player Hand (Remove used)
-      const newHand = [...players[playerId].hand];
-      newHand.splice(handIndexToRemove, 1);
-      
-      // Draw a new card to keep hand size
-      while (newHand.length < 3) {
-        newHand.push(getRandomGate());
-      }
-      setPlayers(prev => ({
-        ...prev,
-        [playerId]: { ...prev[playerId], hand: newHand }
-      }));
-      
-      moveDescription = `Placed ${gate} at Slot ${slotId}`;
+    executeMove({ type: 'DISCARD', playerId: turn });
+  };
 
-    } else if (actionType === 'DISCARD') {
-      // Discard Logic
-      playSound('discard');
-      const newHand = Array.from({ length: INITIAL_HAND_SIZE }, () => getRandomGate());
-      
-      setPlayers(prev => ({
-        ...prev,
-        [playerId]: { ...prev[playerId], hand: newHand }
-      }));
+  // Run an action through the engine and react to the resulting state
+  const executeMove = (move: GameAction) => {
+    // Timed games charge the mover for the time this turn has been running
+    const action = game.clock ? { ...move, elapsedMs: Math.round(spentThisTurn()) } : move;
+    const error = validateAction(game, action);
+    if (error) {
+      setMoveError(error);
+      return;
+    }
 
-      moveDescription = "Discarded hand and skipped turn";
+    // The server applies the move and answers with the new view
+    if (online) {
+      online.sendAction(action);
+      setSelectedCardIndex(null);
+      playAction(game, action);
+      return;
     }
 
-    // Common End of Turn Logic
+    const nextStack = commitAction(undoStack, action);
+    const next = currentState(nextStack);
+    setUndoStack(nextStack);
+    passDevice(next);
+    // A new move replaces whatever could have been redone
+    setCommentaryLog(prev => prev.filter(c => c.turn <= game.turnCount));
     setSelectedCardIndex(null);
-    const nextPlayer = playerId === 'P1' ? 'P2' : 'P1';
-    setTurn(nextPlayer);
-    
+    playAction(game, action);
+
+    if (next.winner && next.puzzle) {
+      if (next.winner === 'P1') {
+        setPuzzleProgress(recordPuzzleSolved(next.puzzle.id, next.turnCount));
+        addCommentary(next.turnCount, `Lock cracked in ${next.turnCount} moves.`);
+      } else {
+        addCommentary(next.turnCount, 'The lock holds.');
+      }
+      return;
+    }
+
+    if (next.winner) {
+      addCommentary(next.turnCount, next.endReason === 'TIMEOUT'
+        ? `${players[action.playerId].name} ran out of time! ${next.players[next.winner].name} takes the grid.`
+        : next.winner === 'DRAW' ? "Circuit overloaded! It's a DRAW!" : `${next.players[next.winner].name} dominates the grid!`);
+      return; // Game over
+    }
+
+    if (next.puzzle) return; // No live commentary in puzzles
+
     // Async Commentary
-    getCommentary(players[playerId].name, moveDescription, rootVal).then(text => {
-      setCommentary(text);
+    // The next player's clock waits for the commentary
+    setCommentaryPending(true);
+    getCommentary(players[action.playerId].name, describeAction(game, action), next.board[0].value).then(text => {
+      setCommentaryPending(false);
+      addCommentary(next.turnCount, text);
     });
+  };
 
-    setIsThinking(false);
+  // Against an AI, undo and redo jump between the human's own decisions.
+  // In hot-seat play every single move can be taken back, with consent.
+  // Puzzles have a single player, so undo needs no one's permission.
+  const soloUndo = isAI || puzzle !== null;
+  const undoTarget = soloUndo ? undoToPlayer(undoStack, 'P1') : undo(undoStack);
+  const redoTarget = soloUndo ? redoToPlayer(undoStack, 'P1') : redo(undoStack);
+  const canUndoMove = !onlineView && canUndo(undoStack) && undoTarget !== undoStack && !isThinking;
+  const canRedoMove = !onlineView && canRedo(undoStack) && redoTarget !== undoStack && !isThinking;
+
+  const handleUndo = () => {
+    if (!canUndoMove) return;
+    if (soloUndo) {
+      setUndoStack(undoTarget);
+      setSelectedCardIndex(null);
+    } else {
+      // The player who made the last move asks the opponent to allow it
+      const lastMove = game.moves[game.moves.length - 1];
+      setTakeBackRequest(lastMove.action.playerId);
+    }
   };
 
+  const resolveTakeBack = (accepted: boolean) => {
+    if (accepted) {
+      const previous = undo(undoStack);
+      setUndoStack(previous);
+      passDevice(currentState(previous));
+      setSelectedCardIndex(null);
+    }
+    setTakeBackRequest(null);
+  };
+
+  const handleRedo = () => {
+    if (!canRedoMove) return;
+    setUndoStack(redoTarget);
+    passDevice(currentState(redoTarget));
+    setSelectedCardIndex(null);
+  };
+
+  // Chess clocks. The mover's clock runs unless something else holds the
+  // table: commentary loading, the device being passed, a take-back question.
+  // The AI's thinking time counts like anyone else's.
+  const clockRunning = gameStarted && game.clock !== null && !winner && !commentaryPending
+    && handoff === null && takeBackRequest === null && replay === null;
+
+  const spentThisTurn = (at = Date.now()) => {
+    const { spentMs, since } = turnTime.current;
+    return spentMs + (since === null ? 0 : Math.max(0, at - since));
+  };
+
+  // Time left for a player, counting the turn in progress
+  const clockLeft = (id: PlayerId) =>
+    game.clock ? Math.max(0, game.clock.remainingMs[id] - (id === turn && !winner ? spentThisTurn(clockNow) : 0)) : 0;
+
+  // Every new position starts a new turn
+  useEffect(() => {
+    turnTime.current = { spentMs: 0, since: clockRunning ? Date.now() : null };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game]);
+
+  useEffect(() => {
+    const now = Date.now();
+    const { spentMs, since } = turnTime.current;
+    if (clockRunning && since === null) turnTime.current = { spentMs, since: now };
+    if (!clockRunning && since !== null) turnTime.current = { spentMs: spentMs + now - since, since: null };
+    if (!clockRunning) return;
+    const timer = setInterval(() => setClockNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [clockRunning]);
+
+  // Flag fall: the engine applies the time control's penalty
+  useEffect(() => {
+    if (clockRunning && clockLeft(turn) <= 0) executeMove({ type: 'TIMEOUT', playerId: turn });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clockNow]);
+
   // AI Turn Effect
   useEffect(() => {
     if (gameStarted && !winner && isAI && turn === 'P2' && !isThinking) {
+      let cancelled = false; // The turn ended without the AI, e.g. its clock ran out
       const performAIMove = async () => {
         setIsThinking(true);
-        // Small delay for realism
-        await new Promise(r => setTimeout(r, 1500));
-        
+        // Small delay for realism, except where it would eat into the AI's clock
+        if (!game.clock) await new Promise(r => setTimeout(r, 1500));
+
+        let action: GameAction;
         try {
-          const aiMove = await getAIMove(board, inputs, players['P2'].hand);
-          
-          if (aiMove.actionType === 'DISCARD') {
-             await executeMove('DISCARD', 'P2');
-          } else {
-             // Validations for PLACE
-             if (!aiMove.slotId && aiMove.slotId !== 0) throw new Error("Missing slotId");
-             if (!aiMove.gateType) throw new Error("Missing gateType");
-
-             // Validate slot availability
-             if (board[aiMove.slotId].gate !== null) {
-                 console.warn("AI tried to play on filled slot, retrying fallback");
-                 // Fallback: Pick first empty
-                 const empty = board.find(n => n.gate === null);
-                 if (empty) {
-                    const handIdx = 0; // Just take first
-                    await executeMove('PLACE', 'P2', players['P2'].hand[handIdx], players['P2'].hand[handIdx], handIdx);
-                 } else {
-                    // No moves? Discard.
-                    await executeMove('DISCARD', 'P2');
-                 }
-             } else {
-                 // Find gate index
-                 const gateIdx = players['P2'].hand.indexOf(aiMove.gateType);
-                 // Safety checks if AI hallucinated card
-                 const validIdx = gateIdx > -1 ? gateIdx : 0;
-                 const validGate = gateIdx > -1 ? aiMove.gateType : players['P2'].hand[0];
-                 
-                 await executeMove('PLACE', 'P2', aiMove.slotId, validGate, validIdx);
-             }
+          action = aiEngine === 'SOLVER'
+            ? await requestSolverMove(game, 'P2', aiLevel, !hiddenHands)
+            : await chooseCortexMove(game, 'P2');
+        } catch (err) {
+          // The search or provider failed outright: the AI still has to move
+          action = listLegalActions(game, 'P2')[0];
+          if (!cancelled) {
+            addCommentary(game.turnCount, `AI failed to choose a move (${err instanceof Error ? err.message : 'unknown error'}); it played the first legal one.`);
           }
-        } catch (e) {
-          console.error("AI failed", e);
-          // Safety fallback
-          await executeMove('DISCARD', 'P2');
+        } finally {
+          if (!cancelled) setIsThinking(false);
         }
+
+        if (cancelled) return;
+        executeMove(action);
       };
       performAIMove();
+      return () => {
+        cancelled = true;
+        setIsThinking(false);
+      };
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [turn, isAI, aiEngine, gameStarted, winner]); 
+
+  // Autosave after every move and commentary line, so a reload can continue the match
+  useEffect(() => {
+    if (!gameStarted || onlineView || activePuzzle) return;
+    writeSave(createSave(AUTOSAVE_ID, 'Autosave', undoStack, commentaryLog, lastOptions));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameStarted, undoStack, commentaryLog]);
+
+  // Browsers only let audio start from a user gesture
+  useEffect(() => {
+    window.addEventListener('pointerdown', unlockAudio);
+    window.addEventListener('keydown', unlockAudio);
+    return () => {
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+    };
+  }, []);
+
+  // Each move sends its signals up the circuit, and the final one ends in a
+  // stinger. New games, undo and loading a save jump positions silently.
+  // Runs before paint, so the board starts animating from the old values.
+  const lastPosition = useRef(game);
+  useLayoutEffect(() => {
+    const before = lastPosition.current;
+    lastPosition.current = game;
+    // A refused move no longer applies once the position changes
+    setMoveError(null);
+    if (game.turnCount !== before.turnCount + 1) {
+      setPropagation(null);
+      return;
     }
+    setPropagation(simulatePropagation(game.board, game.inputs, { before }));
+    setAnnouncement(announceMove(before, game));
+    playPropagation(before.board, game.board);
+    if (game.winner && !before.winner) playCue(outcomeCue(game.winner));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [turn, isAI, gameStarted, winner]); 
+  }, [game]);
+
+  // Keyboard play: left/right or 1-9 pick a card, up/down move between the
+  // places it can go, Enter or Space plays it there, P plays a PEEK, D
+  // discards and Escape lets go of the card. Re-registered every render so
+  // it always sees the current position.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!gameStarted || replay || spectating || handoff || takeBackRequest || showSettings) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+      if (winner || isThinking || (onlineView ? onlineView.you !== turn : isAI && turn === 'P2')) return;
+
+      const hand = players[turn].hand;
+      if (/^[1-9]$/.test(e.key) && Number(e.key) <= hand.length) {
+        handleCardSelect(Number(e.key) - 1);
+      } else if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && hand.length > 0) {
+        const step = e.key === 'ArrowRight' ? 1 : -1;
+        const from = selectedCardIndex ?? (step === 1 ? -1 : hand.length);
+        handleCardSelect((from + step + hand.length) % hand.length);
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        const targets = [...document.querySelectorAll<HTMLElement>(`[${BOARD_TARGET_ATTRIBUTE}]`)];
+        if (targets.length === 0) return;
+        const at = targets.indexOf(document.activeElement as HTMLElement);
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        targets[at === -1 ? (step === 1 ? 0 : targets.length - 1) : (at + step + targets.length) % targets.length].focus();
+      } else if (e.key === 'd' || e.key === 'D') {
+        handleDiscardHand();
+      } else if (e.key === 'p' || e.key === 'P') {
+        const peek = cardAction({});
+        if (peek) executeMove(peek);
+      } else if (e.key === 'Escape') {
+        setSelectedCardIndex(null);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // A #position= link opens the position for spectating, on load or when
+  // one is pasted into this tab
+  useEffect(() => {
+    const openLink = () => {
+      const code = readSharedCode(location.hash);
+      if (code === null) return;
+      try {
+        setSpectating(decodePosition(code));
+        setShareError(null);
+      } catch (err) {
+        setSpectating(null);
+        setShareError(`Shared link is invalid: ${err instanceof Error ? err.message : 'could not read the position.'}`);
+      }
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+  }, []);
+
+  // The start screen lists the saves as they are now
+  useEffect(() => {
+    if (!gameStarted) refreshSaves();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameStarted]);
 
   // ---------------- Render ----------------
 
+  if (replay) {
+    return <ReplayViewer record={replay} gateImages={gateImages} onExit={() => setReplay(null)} />;
+  }
+
+  if (spectating) {
+    return <SpectatorView position={spectating} gateImages={gateImages} onFork={() => forkPosition(spectating)} onExit={closeSpectator} />;
+  }
+
+  if (!gameStarted && showOnline) {
+    return (
+      <OnlineLobby
+        status={onlineStatus}
+        room={onlineView?.room ?? null}
+        error={onlineError}
+        savedSession={loadOnlineSession()}
+        onCreate={createRoom}
+        onJoin={joinRoom}
+        onResume={resumeRoom}
+        onBack={leaveOnline}
+      />
+    );
+  }
+
+  if (!gameStarted && showPuzzles) {
+    return (
+      <PuzzleSelect
+        puzzles={BUILTIN_PUZZLES}
+        progress={puzzleProgress}
+        onPlay={startPuzzle}
+        onBack={() => setShowPuzzles(false)}
+      />
+    );
+  }
+
   if (!gameStarted) {
+    const continuable = saves.find(save => save.id === AUTOSAVE_ID && !save.finished);
+    // PERFECT only plays on small boards; a larger one falls back to HARD
+    const { depth: menuDepth, layout: menuLayout } = menuOptions({ isAI: true });
+    const menuSlotCount = (menuLayout ?? treeLayout(menuDepth ?? DEFAULT_DEPTH)).slots.length;
+    const menuLevel = isSolverLevelAvailable(solverLevel, menuSlotCount) ? solverLevel : 'HARD';
     return (
       <div className="min-h-screen flex items-center justify-center bg-black text-white p-4 overflow-hidden relative">
          <div className="absolute inset-0 circuit-grid opacity-30"></div>
-         <div className="z-10 max-w-lg w-full bg-gray-900/80 backdrop-blur-md p-8 rounded-2xl border border-blue-500/30 shadow-2xl text-center">
+         {showSettings && <SettingsPanel settings={llmSettings} cardArt={cardArt} audio={audioSettings} onSave={saveSettings} onClose={() => setShowSettings(false)} />}
+         <div className="z-10 max-w-lg w-full bg-gray-900/80 backdrop-blur-md p-8 rounded-2xl border border-blue-500/30 shadow-2xl text-center relative">
+            <button
+              onClick={() => setShowSettings(true)}
+              className="absolute top-4 right-4 p-2 text-gray-500 hover:text-gray-200 hover:bg-gray-800 rounded-full transition-colors"
+              title="AI backend settings"
+            >
+              <Settings size={18} />
+            </button>
             <h1 className="text-6xl font-cyber mb-2 text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-600 glow-text">
               LOGIC LOCK
             </h1>
             <p className="text-gray-400 mb-8 font-light tracking-wider">CYBER DUEL PROTOCOL</p>
             
+            <div className="mb-6">
+              <p className="text-xs text-gray-500 mb-2 tracking-widest">CIRCUIT</p>
+              <div className="flex rounded-xl overflow-hidden border border-gray-700">
+                {DEPTHS.map(d => (
+                  <button
+                    key={d}
+                    onClick={() => { setDepth(d); setLayout(null); }}
+                    disabled={isDaily}
+                    className={`flex-1 py-2 text-sm font-bold transition-colors disabled:opacity-40
+                      ${(isDaily ? DEFAULT_DEPTH : depth) === d && (isDaily || !layout) ? 'bg-blue-500/20 text-blue-300' : 'bg-gray-900 text-gray-500 hover:text-gray-300'}`}
+                    title={`Tree: ${2 ** d - 1} slots, ${2 ** d} inputs`}
+                  >
+                    {d}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {layouts.map(l => (
+                  <button
+                    key={l.id}
+                    onClick={() => setLayout(l)}
+                    disabled={isDaily}
+                    className={`px-3 py-1 rounded-xl border text-xs font-bold transition-colors disabled:opacity-40
+                      ${!isDaily && layout?.id === l.id ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-gray-700 bg-gray-900 text-gray-500 hover:text-gray-300'}`}
+                    title={`${l.description ?? l.name} (${l.slots.length} slots, ${l.inputCount} inputs)`}
+                  >
+                    {l.name.toUpperCase()}
+                  </button>
+                ))}
+                <label className={`px-3 py-1 rounded-xl border border-dashed border-gray-700 text-xs font-bold text-gray-500 flex items-center gap-1 transition-colors
+                  ${isDaily ? 'opacity-40' : 'cursor-pointer hover:text-gray-300'}`}>
+                  <Upload size={12} /> LAYOUT JSON
+                  <input type="file" accept="application/json,.json" onChange={handleLayoutUpload} disabled={isDaily} className="hidden" />
+                </label>
+              </div>
+              {layoutError && <p className="mt-2 text-xs text-red-400">{layoutError}</p>}
+            </div>
+
+            <div className="mb-6 flex gap-2">
+              <input
+                value={isDaily ? dailySeed() : seedInput}
+                onChange={e => setSeedInput(e.target.value)}
+                disabled={isDaily}
+                placeholder="SEED (RANDOM)"
+                maxLength={32}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 font-mono text-sm uppercase tracking-widest text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500 disabled:opacity-60"
+              />
+              <button
+                onClick={() => setIsDaily(!isDaily)}
+                className={`px-3 py-2 rounded-xl border text-xs font-bold flex items-center gap-2 transition-colors
+                  ${isDaily ? 'border-yellow-500 bg-yellow-500/20 text-yellow-300' : 'border-gray-700 bg-gray-900 text-gray-400 hover:text-gray-200'}`}
+                title="Everyone gets the same inputs and draw order today"
+              >
+                <Calendar size={14} /> DAILY CIRCUIT
+              </button>
+            </div>
+
+            <div className="mb-6 grid grid-cols-2 gap-2 text-left">
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">DECK</span>
+                <select
+                  value={isDaily ? 'STANDARD' : deckPreset}
+                  onChange={e => setDeckPreset(e.target.value)}
+                  disabled={isDaily}
+                  className="bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-gray-200 disabled:opacity-60"
+                >
+                  {Object.entries(DECK_PRESETS).map(([name, composition]) => (
+                    <option key={name} value={name}>
+                      {name} ({Object.values(composition).join('/')})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">WHEN EMPTY</span>
+                <select
+                  value={isDaily ? 'RESHUFFLE' : deckEmptyRule}
+                  onChange={e => setDeckEmptyRule(e.target.value as DeckEmptyRule)}
+                  disabled={isDaily}
+                  className="bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-gray-200 disabled:opacity-60"
+                >
+                  {DECK_EMPTY_RULES.map(rule => (
+                    <option key={rule} value={rule}>{rule === 'RESHUFFLE' ? 'RESHUFFLE DISCARDS' : 'END THE GAME'}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <button
+              onClick={() => setHiddenHands(!hiddenHands)}
+              className={`mb-6 w-full py-2 rounded-xl border text-xs font-bold flex items-center justify-center gap-2 transition-colors
+                ${hiddenHands ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-gray-700 bg-gray-900 text-gray-400 hover:text-gray-200'}`}
+              title="Opponents' cards are dealt face down; hot-seat games hide the screen between turns"
+            >
+              {hiddenHands ? <EyeOff size={14} /> : <Eye size={14} />} HIDDEN HANDS: {hiddenHands ? 'ON' : 'OFF'}
+            </button>
+
+            <div className="mb-6 grid grid-cols-2 gap-2 text-left">
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">CLOCK</span>
+                <select
+                  value={timePreset}
+                  onChange={e => setTimePreset(e.target.value)}
+                  className="bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-gray-200"
+                >
+                  <option value="UNTIMED">UNTIMED</option>
+                  {Object.entries(TIME_CONTROL_PRESETS).map(([name, control]) => (
+                    <option key={name} value={name}>{name} ({describeTimeControl(control)})</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">ON TIMEOUT</span>
+                <select
+                  value={timeoutRule}
+                  onChange={e => setTimeoutRule(e.target.value as TimeoutRule)}
+                  disabled={timePreset === 'UNTIMED'}
+                  className="bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-gray-200 disabled:opacity-60"
+                >
+                  {TIMEOUT_RULES.map(rule => (
+                    <option key={rule} value={rule}>{TIMEOUT_RULE_LABELS[rule]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
             <div className="space-y-4">
+              {continuable && (
+                <button
+                  onClick={() => resumeSave(continuable)}
+                  className="w-full py-4 bg-green-500/10 hover:bg-green-500/20 border border-green-400/60 rounded-xl transition-all flex items-center justify-center gap-3 group"
+                >
+                  <Play className="text-green-400" />
+                  <span className="font-bold text-lg">CONTINUE MATCH</span>
+                </button>
+              )}
+
               <button 
-                onClick={() => startGame(false)}
+                onClick={() => startGame(menuOptions({ isAI: false }))}
                 className="w-full py-4 bg-gray-800 hover:bg-gray-700 border border-blue-500/50 rounded-xl transition-all flex items-center justify-center gap-3 group"
               >
                 <Cpu className="group-hover:text-blue-400" />
@@ -264,14 +981,87 @@ function App() {
               </button>
               
               <button 
-                onClick={() => startGame(true)}
+                onClick={() => startGame(menuOptions({ isAI: true, aiEngine: 'CORTEX' }))}
                 className="w-full py-4 bg-gray-800 hover:bg-gray-700 border border-purple-500/50 rounded-xl transition-all flex items-center justify-center gap-3 group"
               >
                 <Zap className="group-hover:text-purple-400" />
                 <span className="font-bold text-lg">VS CORTEX AI</span>
               </button>
+
+              <div className="border border-green-500/50 rounded-xl overflow-hidden">
+                <button 
+                  onClick={() => startGame(menuOptions({ isAI: true, aiEngine: 'SOLVER', aiLevel: menuLevel }))}
+                  className="w-full py-4 bg-gray-800 hover:bg-gray-700 transition-all flex items-center justify-center gap-3 group"
+                >
+                  <Brain className="group-hover:text-green-400" />
+                  <span className="font-bold text-lg">VS LOCAL SOLVER</span>
+                </button>
+                <div className="flex bg-gray-900">
+                  {SOLVER_LEVELS.map(level => (
+                    <button
+                      key={level}
+                      onClick={() => setSolverLevel(level)}
+                      disabled={!isSolverLevelAvailable(level, menuSlotCount)}
+                      title={describeSolverLevel(level)}
+                      className={`flex-1 py-2 text-xs font-bold tracking-widest transition-colors disabled:opacity-30 disabled:cursor-not-allowed
+                        ${menuLevel === level ? 'bg-green-500/20 text-green-300' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                      {level}
+                    </button>
+                  ))}
+                </div>
+                <p className="px-3 py-2 bg-gray-900 text-[10px] font-mono text-gray-500">{describeSolverLevel(menuLevel)}</p>
+              </div>
+
+              <button
+                onClick={() => setShowPuzzles(true)}
+                className="w-full py-4 bg-gray-800 hover:bg-gray-700 border border-yellow-500/50 rounded-xl transition-all flex items-center justify-center gap-3 group"
+              >
+                <PuzzleIcon className="group-hover:text-yellow-400" />
+                <span className="font-bold text-lg">PUZZLE MODE</span>
+              </button>
+
+              <button
+                onClick={() => setShowOnline(true)}
+                className="w-full py-4 bg-gray-800 hover:bg-gray-700 border border-cyan-500/50 rounded-xl transition-all flex items-center justify-center gap-3 group"
+              >
+                <Globe className="group-hover:text-cyan-400" />
+                <span className="font-bold text-lg">ONLINE MULTIPLAYER</span>
+              </button>
             </div>
 
+            <label className="mt-4 w-full py-2 rounded-xl border border-gray-700 bg-gray-900 hover:bg-gray-800 text-xs font-bold text-gray-400 flex items-center justify-center gap-2 cursor-pointer transition-colors">
+              <Upload size={14} /> LOAD MATCH RECORD
+              <input type="file" accept="application/json,.json" onChange={handleRecordUpload} className="hidden" />
+            </label>
+            {recordError && <p className="mt-2 text-xs text-red-400">{recordError}</p>}
+            {shareError && <p className="mt-2 text-xs text-red-400">{shareError}</p>}
+
+            {saves.length > 0 && (
+              <div className="mt-4 text-left">
+                <p className="text-xs text-gray-500 mb-2 tracking-widest">SAVED MATCHES</p>
+                <div className="flex flex-col gap-1 max-h-40 overflow-auto">
+                  {saves.map(save => (
+                    <div key={save.id} className="flex items-center gap-2 bg-gray-900 border border-gray-800 rounded-lg px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-gray-200 truncate">{save.id === AUTOSAVE_ID ? 'AUTOSAVE' : save.name}</p>
+                        <p className="text-[10px] font-mono text-gray-500">
+                          {describeSave(save)}{save.finished && ' · FINISHED'} · {new Date(save.savedAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <button onClick={() => resumeSave(save)} className="p-1.5 text-gray-400 hover:text-green-300 hover:bg-gray-800 rounded" title="Load">
+                        <Play size={14} />
+                      </button>
+                      <button onClick={() => removeSave(save.id)} className="p-1.5 text-gray-400 hover:text-red-300 hover:bg-gray-800 rounded" title="Delete">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {saveError && <p className="mt-2 text-xs text-red-400">{saveError}</p>}
+              </div>
+            )}
+
             <div className="mt-8 text-xs text-gray-500 text-left">
               <p>OBJECTIVE:</p>
               <ul className="list-disc pl-4 mt-1 space-y-1">
@@ -288,11 +1078,43 @@ function App() {
 
   const currentPlayer = players[turn];
   const isP1Turn = turn === 'P1';
-  const isValidSlot = (id: number) => board[id].gate === null;
+  // Puzzle gates that are not locked may be replaced
+  const isValidSlot = (id: number) => board[id].gate === null || (puzzle !== null && !board[id].locked);
+  // Action cards target whatever the engine would accept for them
+  const isLegal = (action: GameAction | null) => action !== null && validateAction(game, action) === null;
+  const validSlots = selectedCard !== null && isActionCard(selectedCard)
+    ? board.map(n => n.id).filter(slotId => isLegal(cardAction({ slotId })))
+    : board.map(n => n.id).filter(isValidSlot);
+  const validInputs = selectedCard === ActionCardType.FLIP
+    ? inputs.map((_, inputIndex) => inputIndex).filter(inputIndex => isLegal(cardAction({ inputIndex })))
+    : [];
+  const peekAction = cardAction({});
+
+  // Analysis covers the selected card, or the best card for each slot
+  const canAnalyse = !onlineView && isAnalysisAvailable(game);
+  // Whether this screen shows a hand face up. Online the server decides; at the
+  // end of a game every hand is revealed.
+  const showsHand = (id: PlayerId) => {
+    if (winner) return true;
+    if (onlineView) return onlineView.you === id;
+    if (!hiddenHands || puzzle) return true;
+    return isAI ? id === 'P1' : id === turn && handoff === null;
+  };
+  const handSize = (id: PlayerId) => (onlineView ? onlineView.handSizes[id] : players[id].hand.length);
+  // Analysis reads the mover's hand, so it is only offered when that hand is visible
+  const analysisOn = showAnalysis && canAnalyse && !winner && showsHand(turn);
+  const placements = analysisOn ? analyzePlacements(game, turn) : null;
+  const slotOutcomes = placements && (selectedCardIndex !== null ? placements[selectedCardIndex] : bestOutcomes(placements));
   const canInteract = !winner && !isThinking;
+  // Whose cards this screen may play: online only your own seat's, against an AI only P1's
+  const controls = (id: PlayerId) => (onlineView ? onlineView.you === id : !(isAI && id === 'P2'));
+  const turnLabel = onlineView ? (turn === onlineView.you ? 'YOUR TURN' : "OPPONENT'S TURN") : `${currentPlayer.name}'S TURN`;
 
   return (
     <div className="min-h-screen bg-[#050505] text-white flex flex-col items-center py-4 px-2 sm:px-4">
+
+      {/* Moves and value changes, read out by screen readers */}
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
       
       {/* Header */}
       <header className="w-full max-w-7xl flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
@@ -302,21 +1124,157 @@ function App() {
         </div>
         
         {/* Score/Target Display */}
+        {puzzle ? (
+          <div className="flex gap-8 text-sm md:text-base">
+            <div className="flex flex-col items-end">
+              <span className="text-yellow-300 font-bold">{puzzle.title.toUpperCase()}</span>
+              <span className="text-xs text-gray-400">TARGET: {puzzle.target}</span>
+            </div>
+            <div className="h-full w-px bg-gray-700"></div>
+            <div className="flex flex-col items-start">
+              <span className="text-gray-300 font-bold">{puzzle.moveLimit - game.turnCount}</span>
+              <span className="text-xs text-gray-400">MOVES LEFT</span>
+            </div>
+          </div>
+        ) : (
         <div className="flex gap-8 text-sm md:text-base">
           <div className={`flex flex-col items-end ${turn === 'P1' ? 'opacity-100' : 'opacity-50'}`}>
             <span className="text-blue-400 font-bold">PLAYER 1</span>
             <span className="text-xs text-gray-400">TARGET: 1</span>
+            {game.clock && <ClockFace ms={clockLeft('P1')} running={clockRunning && turn === 'P1'} />}
           </div>
           <div className="h-full w-px bg-gray-700"></div>
           <div className={`flex flex-col items-start ${turn === 'P2' ? 'opacity-100' : 'opacity-50'}`}>
             <span className="text-red-400 font-bold">PLAYER 2</span>
             <span className="text-xs text-gray-400">TARGET: 0</span>
+            {game.clock && <ClockFace ms={clockLeft('P2')} running={clockRunning && turn === 'P2'} />}
           </div>
         </div>
+        )}
 
-        <button onClick={resetGame} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Reset Game">
-          <RefreshCw size={20} />
-        </button>
+        <div className="flex items-center gap-2">
+          {onlineView && (
+            <span className="text-[10px] font-mono text-cyan-300 px-2 py-1 rounded border border-cyan-900" title="Room code">
+              ROOM: {onlineView.room}
+            </span>
+          )}
+          {seed && (
+          <button
+            onClick={copySeed}
+            className="hidden sm:flex items-center gap-1 text-[10px] font-mono text-gray-500 hover:text-gray-300 px-2 py-1 rounded border border-gray-800 transition-colors"
+            title="Copy seed"
+          >
+            {isDailySeed(seed) ? <Calendar size={10} /> : <Copy size={10} />} SEED: {seed}
+          </button>
+          )}
+          <button
+            onClick={() => setSlowMotion(!slowMotion)}
+            className={`p-2 rounded-full transition-colors ${slowMotion ? 'bg-teal-500/20 text-teal-300' : 'hover:bg-gray-800'}`}
+            title={slowMotion ? 'Normal speed signals' : 'Slow-motion signals (replays the last move)'}
+          >
+            <Snail size={20} />
+          </button>
+          {canAnalyse && (
+            <button
+              onClick={() => setShowAnalysis(!showAnalysis)}
+              className={`p-2 rounded-full transition-colors ${showAnalysis ? 'bg-yellow-500/20 text-yellow-300' : 'hover:bg-gray-800'}`}
+              title={showAnalysis ? 'Hide move analysis' : 'Show move analysis'}
+            >
+              <Lightbulb size={20} />
+            </button>
+          )}
+          {!onlineView && (
+          <>
+          <button
+            onClick={handleUndo}
+            disabled={!canUndoMove || takeBackRequest !== null}
+            className="p-2 hover:bg-gray-800 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            title={soloUndo ? 'Undo to your last move' : 'Request a take-back'}
+          >
+            <Undo2 size={20} />
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={!canRedoMove || takeBackRequest !== null}
+            className="p-2 hover:bg-gray-800 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Redo"
+          >
+            <Redo2 size={20} />
+          </button>
+          </>
+          )}
+          {!puzzle && (!onlineView || winner) && (
+            <button onClick={downloadRecord} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Download match record">
+              <Download size={20} />
+            </button>
+          )}
+          {!puzzle && (
+            <div className="relative">
+              <button onClick={() => setShareMenu(shareMenu ? null : 'OPEN')} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Copy a link to this position">
+                <Link size={20} />
+              </button>
+              {shareMenu && (
+                <div className="absolute right-0 top-full mt-2 z-40 w-64 bg-gray-900 border border-gray-700 rounded-xl p-3 shadow-xl flex flex-col gap-2">
+                  <button onClick={() => copyLink(true)} className="w-full py-1 text-xs font-bold bg-blue-500/20 text-blue-300 border border-blue-500/50 rounded hover:bg-blue-500/30">
+                    COPY LINK, HANDS HIDDEN
+                  </button>
+                  {/* Online, the other seat's hand isn't on this screen to share */}
+                  {!onlineView && (
+                    <button onClick={() => copyLink(false)} className="w-full py-1 text-xs font-bold bg-gray-800 text-gray-300 border border-gray-700 rounded hover:bg-gray-700">
+                      COPY LINK, HANDS SHOWN
+                    </button>
+                  )}
+                  {shareMenu === 'COPIED' && <p className="text-[10px] text-green-400">Link copied. It opens this position to spectate or fork.</p>}
+                  {shareMenu === 'COPIED_REDACTED' && <p className="text-[10px] text-green-400">Link copied. It leaves out the hands and the seed, so it can be spectated but not forked.</p>}
+                </div>
+              )}
+            </div>
+          )}
+          {!puzzle && !onlineView && (
+            <div className="relative">
+              <button onClick={() => setSaveName(saveName === null ? '' : null)} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Save match">
+                <Save size={20} />
+              </button>
+              {saveName !== null && (
+                <div className="absolute right-0 top-full mt-2 z-40 w-64 bg-gray-900 border border-gray-700 rounded-xl p-3 shadow-xl">
+                  <input
+                    autoFocus
+                    value={saveName}
+                    onChange={e => setSaveName(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && saveToSlot()}
+                    placeholder="Save name"
+                    className="w-full bg-black border border-gray-700 rounded px-2 py-1 text-sm font-mono mb-2"
+                  />
+                  <button onClick={saveToSlot} className="w-full py-1 text-xs font-bold bg-blue-500/20 text-blue-300 border border-blue-500/50 rounded hover:bg-blue-500/30">
+                    SAVE TO NEW SLOT
+                  </button>
+                  {saveError && <p className="mt-2 text-[10px] text-red-400">{saveError}</p>}
+                </div>
+              )}
+            </div>
+          )}
+          <button
+            onClick={() => changeAudio({ ...audioSettings, muted: !audioSettings.muted })}
+            className="p-2 hover:bg-gray-800 rounded-full transition-colors"
+            title={audioSettings.muted ? 'Unmute sound' : 'Mute sound'}
+          >
+            {audioSettings.muted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+          </button>
+          {!onlineView && (
+            <button onClick={() => setGameStarted(false)} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Main menu (the match is autosaved)">
+              <Home size={20} />
+            </button>
+          )}
+          {onlineView ? (
+            <button onClick={leaveOnline} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Leave room">
+              <LogOut size={20} />
+            </button>
+          ) : (
+            <button onClick={resetGame} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Reset Game">
+              <RefreshCw size={20} />
+            </button>
+          )}
+        </div>
       </header>
 
       {/* Commentary Box */}
@@ -328,22 +1286,161 @@ function App() {
           "{commentary}"
         </p>
       </div>
+      {moveError && (
+        <p role="alert" className="w-full max-w-5xl -mt-2 mb-4 px-3 text-xs font-mono text-red-400">
+          MOVE REFUSED ({moveError.code}): {moveError.message}
+        </p>
+      )}
+
+      {/* Pass the Device */}
+      {handoff && !onlineView && !winner && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black">
+           <div className="absolute inset-0 circuit-grid opacity-20"></div>
+           <div className="z-10 text-center max-w-sm p-8">
+              <EyeOff size={48} className={`mx-auto mb-4 ${handoff === 'P1' ? 'text-blue-400' : 'text-red-400'}`} />
+              <h2 className="text-3xl font-cyber mb-2">PASS TO {players[handoff].name.toUpperCase()}</h2>
+              <p className="text-gray-400 mb-6">Hand the device over. Only {players[handoff].name} should look at the screen.</p>
+              <button
+                onClick={() => setHandoff(null)}
+                className="px-8 py-3 bg-white text-black font-bold rounded hover:scale-105 transition-transform"
+              >
+                I'M {players[handoff].name.toUpperCase()}
+              </button>
+           </div>
+        </div>
+      )}
+
+      {/* Take-back Request */}
+      {takeBackRequest && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+           <div className="bg-gray-900 p-8 rounded-2xl border-2 border-yellow-500/40 text-center max-w-sm">
+              <Undo2 size={40} className="mx-auto mb-4 text-yellow-400" />
+              <h2 className="text-2xl font-cyber mb-2">TAKE-BACK?</h2>
+              <p className="text-gray-400 mb-6">
+                {players[takeBackRequest].name} wants to undo their last move.{' '}
+                {players[getOpponent(takeBackRequest)].name}, do you allow it?
+              </p>
+              <div className="flex justify-center gap-3">
+                <button
+                  onClick={() => resolveTakeBack(true)}
+                  className="px-6 py-2 bg-white text-black font-bold rounded hover:scale-105 transition-transform"
+                >
+                  ALLOW
+                </button>
+                <button
+                  onClick={() => resolveTakeBack(false)}
+                  className="px-6 py-2 border border-gray-600 font-bold rounded hover:bg-gray-800 transition-colors"
+                >
+                  DECLINE
+                </button>
+              </div>
+           </div>
+        </div>
+      )}
+
+      {/* Puzzle Result */}
+      {winner && puzzle && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+           <div className="bg-gray-900 p-8 rounded-2xl border-2 border-yellow-500/30 text-center shadow-[0_0_50px_rgba(234,179,8,0.2)]">
+              {winner === 'P1'
+                ? <LockOpen size={64} className="mx-auto mb-4 text-green-400" />
+                : <Lock size={64} className="mx-auto mb-4 text-red-400" />}
+              <h2 className="text-4xl font-cyber mb-2">{winner === 'P1' ? 'LOCK CRACKED' : 'LOCK HOLDS'}</h2>
+              <p className="text-gray-400 mb-6">
+                {winner === 'P1'
+                  ? `Solved in ${game.turnCount} of ${puzzle.moveLimit} moves.`
+                  : game.endReason === 'MOVE_LIMIT' ? 'Out of moves. ' : 'Out of gates. '}
+                {winner !== 'P1' && `Output: ${board[0].value ?? 'Disconnected'}`}
+              </p>
+              <button
+                onClick={resetGame}
+                className="px-8 py-3 bg-white text-black font-bold rounded hover:scale-105 transition-transform"
+              >
+                {winner === 'P1' ? 'PLAY AGAIN' : 'RETRY'}
+              </button>
+              <div className="mt-4 flex justify-center gap-2">
+                {canUndoMove && (
+                  <button
+                    onClick={handleUndo}
+                    className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+                  >
+                    <Undo2 size={14} /> UNDO
+                  </button>
+                )}
+                <button
+                  onClick={backToPuzzles}
+                  className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+                >
+                  <PuzzleIcon size={14} /> PUZZLES
+                </button>
+              </div>
+           </div>
+        </div>
+      )}
 
       {/* Winner Overlay */}
-      {winner && (
+      {winner && !puzzle && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
            <div className="bg-gray-900 p-8 rounded-2xl border-2 border-white/20 text-center shadow-[0_0_50px_rgba(59,130,246,0.3)] transform scale-100">
               <Trophy size={64} className={`mx-auto mb-4 ${winner === 'P1' ? 'text-blue-400' : (winner === 'P2' ? 'text-red-400' : 'text-gray-400')}`} />
               <h2 className="text-4xl font-cyber mb-2">
                 {winner === 'DRAW' ? 'DRAW GAME' : `${players[winner].name} WINS`}
               </h2>
-              <p className="text-gray-400 mb-6">Final Output: {board[0].value}</p>
+              <p className="text-gray-400 mb-6">
+                {game.endReason === 'DECK_EMPTY' && 'Deck exhausted. '}
+                {game.endReason === 'TIMEOUT' && `${players[getOpponent(winner as PlayerId)].name} ran out of time. `}
+                Final Output: {board[0].value ?? 'Disconnected'}
+              </p>
               <button 
-                onClick={resetGame}
-                className="px-8 py-3 bg-white text-black font-bold rounded hover:scale-105 transition-transform"
+                onClick={onlineView ? () => online?.rematch() : resetGame}
+                disabled={onlineView !== null && onlineView.opponent !== 'CONNECTED'}
+                className="px-8 py-3 bg-white text-black font-bold rounded hover:scale-105 transition-transform disabled:opacity-40 disabled:hover:scale-100"
               >
-                PLAY AGAIN
+                {onlineView ? 'REMATCH' : 'PLAY AGAIN'}
               </button>
+              <div className="mt-4 flex justify-center gap-2">
+                {canUndoMove && (
+                  <button
+                    onClick={handleUndo}
+                    className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+                  >
+                    <Undo2 size={14} /> {isAI ? 'UNDO' : 'TAKE BACK'}
+                  </button>
+                )}
+                <button
+                  onClick={watchReplay}
+                  className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+                >
+                  <Film size={14} /> WATCH REPLAY
+                </button>
+                <button
+                  onClick={downloadRecord}
+                  className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+                >
+                  <Download size={14} /> DOWNLOAD RECORD
+                </button>
+                {onlineView && (
+                  <button
+                    onClick={leaveOnline}
+                    className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+                  >
+                    <LogOut size={14} /> LEAVE ROOM
+                  </button>
+                )}
+              </div>
+              {/* Take the finished circuit to a simulator or a lab */}
+              <div className="mt-4 flex justify-center items-center gap-2 text-[10px] font-mono text-gray-500">
+                <FileCode size={14} /> EXPORT CIRCUIT:
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => downloadCircuit(format)}
+                    className="px-2 py-1 font-bold text-gray-300 border border-gray-700 rounded hover:bg-gray-800 transition-colors"
+                  >
+                    {EXPORT_FORMATS[format].label}
+                  </button>
+                ))}
+              </div>
            </div>
         </div>
       )}
@@ -358,12 +1455,38 @@ function App() {
                board={board} 
                inputs={inputs} 
                onSlotClick={handleSlotClick}
-               validSlots={board.map(n => n.id).filter(isValidSlot)}
+               validSlots={validSlots}
                gateImages={gateImages}
+               analysis={slotOutcomes}
+               rootRange={analysisOn ? getRootRange(game) : null}
+               flippedInputs={game.flippedInputs}
+               validInputs={validInputs}
+               onInputClick={handleInputClick}
+               highlight={highlight}
+               propagation={propagation}
+               timeScale={slowMotion ? SLOW_MOTION_FACTOR : 1}
              />
           </div>
+          {/* Targeting help while an action card is selected */}
+          {selectedCard !== null && isActionCard(selectedCard) && canInteract && (
+            <div className="mt-3 flex items-center justify-center gap-3 text-xs font-mono text-gray-300">
+              <span>
+                {selectedCard === ActionCardType.OVERWRITE && overwriteGateIndex !== null
+                  ? `Now pick the unlocked gate to replace with ${players[turn].hand[overwriteGateIndex]}.`
+                  : ACTION_CARD_RULES[selectedCard].hint}
+              </span>
+              {peekAction && (
+                <button
+                  onClick={() => executeMove(peekAction)}
+                  className="flex items-center gap-1 bg-violet-900/40 hover:bg-violet-900/60 text-violet-200 px-3 py-1 rounded border border-violet-700 transition-colors"
+                >
+                  <Eye size={12} /> PLAY PEEK
+                </button>
+              )}
+            </div>
+          )}
           <div className="mt-4 text-center text-xs text-gray-500 font-mono uppercase tracking-widest">
-             {isThinking ? "PROCESSING NEURAL NETWORK..." : `${currentPlayer.name}'S TURN`}
+             {isThinking ? "PROCESSING NEURAL NETWORK..." : turnLabel}
           </div>
         </div>
 
@@ -376,9 +1499,9 @@ function App() {
            `}>
              <div className="flex justify-between items-center mb-3">
                 <h3 className="text-sm font-bold text-blue-400 flex flex-col">
-                  P1 HAND <span className="text-[10px] text-gray-400">TARGET: 1</span>
+                  {puzzle ? 'YOUR HAND' : onlineView?.you === 'P1' ? 'P1 HAND (YOU)' : 'P1 HAND'} <span className="text-[10px] text-gray-400">TARGET: {players.P1.targetValue}</span>
                 </h3>
-                {isP1Turn && canInteract && (
+                {isP1Turn && controls('P1') && canInteract && (
                   <button 
                     onClick={handleDiscardHand}
                     className="text-[10px] flex items-center gap-1 bg-red-900/30 hover:bg-red-900/50 text-red-300 px-2 py-1 rounded border border-red-800 transition-colors"
@@ -390,30 +1513,31 @@ function App() {
              </div>
              
              <div className="flex flex-wrap gap-2 justify-center lg:justify-start">
-               {players['P1'].hand.map((gate, i) => (
-                 <GateCard 
+               {showsHand('P1') ? players['P1'].hand.map((card, i) => (
+                 <HandCard 
                    key={`p1-${i}`} 
-                   type={gate} 
+                   card={card} 
                    small
-                   selected={isP1Turn && selectedCardIndex === i}
+                   selected={isP1Turn && (selectedCardIndex === i || overwriteGateIndex === i)}
                    onClick={() => isP1Turn && handleCardSelect(i)}
-                   disabled={!isP1Turn || winner !== null}
-                   imageUrl={gateImages[gate]}
+                   disabled={!isP1Turn || !controls('P1') || winner !== null}
+                   imageUrl={gateImages[card]}
                  />
-               ))}
+               )) : <HiddenHand count={handSize('P1')} peek={peekOf('P1')} />}
              </div>
            </div>
 
-           {/* Opponent Hand (P2) */}
+           {/* Opponent Hand (P2); the lock in a puzzle holds no cards */}
+           {!puzzle && (
            <div className={`
              bg-gray-900/80 p-4 rounded-xl border-t-4 transition-all relative
              ${!isP1Turn ? 'border-red-500 shadow-[0_0_20px_rgba(239,68,68,0.2)]' : 'border-gray-800 opacity-50'}
            `}>
              <div className="flex justify-between items-center mb-3">
                 <h3 className="text-sm font-bold text-red-400 flex flex-col">
-                  {isAI ? 'CORTEX HAND' : 'P2 HAND'} <span className="text-[10px] text-gray-400">TARGET: 0</span>
+                  {isAI ? (aiEngine === 'SOLVER' ? 'SOLVER HAND' : 'CORTEX HAND') : onlineView?.you === 'P2' ? 'P2 HAND (YOU)' : 'P2 HAND'} <span className="text-[10px] text-gray-400">TARGET: 0</span>
                 </h3>
-                {!isP1Turn && !isAI && canInteract && (
+                {!isP1Turn && controls('P2') && canInteract && (
                   <button 
                     onClick={handleDiscardHand}
                     className="text-[10px] flex items-center gap-1 bg-red-900/30 hover:bg-red-900/50 text-red-300 px-2 py-1 rounded border border-red-800 transition-colors"
@@ -424,19 +1548,24 @@ function App() {
                 )}
              </div>
              <div className="flex flex-wrap gap-2 justify-center lg:justify-start">
-               {players['P2'].hand.map((gate, i) => (
-                 <GateCard 
+               {showsHand('P2') ? players['P2'].hand.map((card, i) => (
+                 <HandCard 
                    key={`p2-${i}`} 
-                   type={gate} 
+                   card={card} 
                    small
-                   selected={!isP1Turn && selectedCardIndex === i}
-                   onClick={() => !isAI && !isP1Turn && handleCardSelect(i)}
-                   disabled={isAI || isP1Turn || winner !== null}
-                   imageUrl={gateImages[gate]}
+                   selected={!isP1Turn && (selectedCardIndex === i || overwriteGateIndex === i)}
+                   onClick={() => controls('P2') && !isP1Turn && handleCardSelect(i)}
+                   disabled={!controls('P2') || isP1Turn || winner !== null}
+                   imageUrl={gateImages[card]}
                  />
-               ))}
+               )) : <HiddenHand count={handSize('P2')} peek={peekOf('P2')} />}
              </div>
            </div>
+           )}
+
+           <DeckPanel deck={game.deck} drawPileSize={onlineView?.drawPileSize} />
+
+           <ExpressionPanel board={board} inputs={inputs} onHighlight={setHighlight} />
 
            {/* Instructions / Legend */}
            <div className="mt-auto bg-gray-800/30 p-4 rounded-lg text-xs text-gray-400">
@@ -446,10 +1575,22 @@ function App() {
                 <div><span className="text-blue-400 font-bold">OR</span>: Any 1</div>
                 <div><span className="text-purple-400 font-bold">XOR</span>: Different</div>
                 <div><span className="text-red-400 font-bold">NAND</span>: Not Both 1</div>
+                <div><span className="text-cyan-400 font-bold">NOR</span>: Both 0</div>
+                <div><span className="text-fuchsia-400 font-bold">XNOR</span>: Same</div>
+                <div><span className="text-orange-400 font-bold">NOT</span>: Flips A</div>
+                <div><span className="text-lime-400 font-bold">BUFFER</span>: Copies A</div>
+                <div><span className="text-amber-500 font-bold">AND3</span>: All three 1</div>
+                <div><span className="text-indigo-400 font-bold">OR3</span>: Any of three 1</div>
+                <div><span className="text-emerald-400 font-bold">MAJ3</span>: At least two 1</div>
               </div>
+              <p className="mt-2 opacity-70">Three-input gates come in the EXTENDED deck and only fit slots wired to three sources.</p>
               <div className="mt-3 pt-3 border-t border-gray-700">
                 <p className="opacity-70">Tip: Discarding consumes your turn but refreshes your options.</p>
               </div>
+              <div className="mt-3 pt-3 border-t border-gray-700 space-y-1">
+                <p><span className="font-bold text-gray-300">WIRES</span>: solid = 1, dashed = 0, dotted = no signal</p>
+                <p><span className="font-bold text-gray-300">KEYS</span>: ←/→ or 1-9 pick a card, ↑/↓ pick a target, Enter plays, P peeks, D discards, Esc cancels</p>
+              </div>
            </div>
         </div>
       </main>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ActionCardType } from '../types';
+import { ACTION_CARD_RULES } from '../services/actionCardService';
+import { Replace, Lock, ToggleLeft, Eye } from 'lucide-react';
+
+interface ActionCardProps {
+  type: ActionCardType;
+  selected?: boolean;
+  onClick?: () => void;
+  disabled?: boolean;
+  small?: boolean;
+}
+
+const ActionColors: Record<ActionCardType, string> = {
+  [ActionCardType.OVERWRITE]: 'border-rose-300 text-rose-300 shadow-rose-900/50',
+  [ActionCardType.LOCK]: 'border-sky-300 text-sky-300 shadow-sky-900/50',
+  [ActionCardType.FLIP]: 'border-teal-300 text-teal-300 shadow-teal-900/50',
+  [ActionCardType.PEEK]: 'border-violet-300 text-violet-300 shadow-violet-900/50',
+};
+
+const ActionIcons: Record<ActionCardType, React.ElementType> = {
+  [ActionCardType.OVERWRITE]: Replace,
+  [ActionCardType.LOCK]: Lock,
+  [ActionCardType.FLIP]: ToggleLeft,
+  [ActionCardType.PEEK]: Eye,
+};
+
+// Action cards have no gate symbol: an icon, the name and a one-line rule
+export const ActionCard: React.FC<ActionCardProps> = ({ type, selected, onClick, disabled, small }) => {
+  const Icon = ActionIcons[type];
+  const press = () => !disabled && onClick?.();
+  return (
+    <div
+      onClick={press}
+      onKeyDown={e => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        press();
+      }}
+      role={onClick ? 'button' : 'img'}
+      tabIndex={onClick && !disabled ? 0 : undefined}
+      aria-label={`${type} card: ${ACTION_CARD_RULES[type].summary}`}
+      aria-pressed={onClick ? !!selected : undefined}
+      aria-disabled={onClick ? !!disabled : undefined}
+      title={ACTION_CARD_RULES[type].hint}
+      className={`
+        relative flex flex-col items-center justify-center gap-2 p-2
+        bg-gray-900 border-2 border-dashed rounded-xl overflow-hidden
+        transition-all duration-200 focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-white
+        ${ActionColors[type]}
+        ${selected ? 'scale-110 shadow-[0_0_20px_currentColor] z-10 bg-gray-800 ring-2 ring-white' : 'shadow-md'}
+        ${disabled ? 'opacity-50 cursor-not-allowed grayscale' : 'cursor-pointer hover:bg-gray-800 hover:scale-105'}
+        ${small ? 'w-20 h-28 md:w-28 md:h-40' : 'w-32 h-44 md:w-40 md:h-56'}
+      `}
+    >
+      <Icon size={small ? 28 : 40} aria-hidden="true" />
+      <span className="font-cyber font-bold text-xs md:text-sm tracking-wider">{type}</span>
+      <span className="hidden md:block text-[10px] text-center text-gray-400 leading-tight">
+        {ACTION_CARD_RULES[type].summary}
+      </span>
+    </div>
+  );
+};
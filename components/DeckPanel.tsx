@@ -0,0 +1,77 @@
+import React from 'react';
+import { ActionCardType, Card, DeckState, GateType } from '../types';
+import { countCards } from '../services/deckService';
+import { Layers } from 'lucide-react';
+
+interface DeckPanelProps {
+  deck: DeckState;
+  drawPileSize?: number; // Online views leave the draw pile out and send its size instead
+}
+
+const CardTextColors: Record<Card, string> = {
+  [GateType.AND]: 'text-yellow-400',
+  [GateType.OR]: 'text-blue-400',
+  [GateType.XOR]: 'text-purple-400',
+  [GateType.NAND]: 'text-red-400',
+  [GateType.NOR]: 'text-cyan-400',
+  [GateType.XNOR]: 'text-fuchsia-400',
+  [GateType.NOT]: 'text-orange-400',
+  [GateType.BUFFER]: 'text-lime-400',
+  [GateType.AND3]: 'text-amber-500',
+  [GateType.OR3]: 'text-indigo-400',
+  [GateType.MAJ3]: 'text-emerald-400',
+  [ActionCardType.OVERWRITE]: 'text-rose-300',
+  [ActionCardType.LOCK]: 'text-sky-300',
+  [ActionCardType.FLIP]: 'text-teal-300',
+  [ActionCardType.PEEK]: 'text-violet-300',
+};
+
+// Public deck information: pile sizes, the full deck list and what has
+// been discarded. The draw pile's contents stay hidden,
+// players have to count cards themselves.
+export const DeckPanel: React.FC<DeckPanelProps> = ({ deck, drawPileSize = deck.drawPile.length }) => {
+  const discarded = countCards(deck.discardPile);
+
+  return (
+    <div className="bg-gray-900/80 p-4 rounded-xl border border-gray-800 text-xs text-gray-400">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-bold text-gray-300 flex items-center gap-2">
+          <Layers size={14} /> DECK
+        </h3>
+        <span className="text-[10px] text-gray-500">
+          {deck.emptyRule === 'RESHUFFLE' ? 'RESHUFFLES WHEN EMPTY' : 'GAME ENDS WHEN EMPTY'}
+        </span>
+      </div>
+
+      <div className="flex gap-4 mb-3">
+        <div className="flex flex-col">
+          <span className="text-2xl font-cyber text-white">{drawPileSize}</span>
+          <span className="text-[10px]">DRAW PILE</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-2xl font-cyber text-gray-300">{deck.discardPile.length}</span>
+          <span className="text-[10px]">DISCARDED</span>
+        </div>
+      </div>
+
+      <table className="w-full font-mono">
+        <thead>
+          <tr className="text-[10px] text-gray-500">
+            <th className="text-left font-normal">CARD</th>
+            <th className="text-right font-normal">IN DECK</th>
+            <th className="text-right font-normal">DISCARDED</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(deck.composition) as Card[]).filter(card => deck.composition[card] > 0).map(card => (
+            <tr key={card}>
+              <td className={`font-bold ${CardTextColors[card]}`}>{card}</td>
+              <td className="text-right">{deck.composition[card]}</td>
+              <td className="text-right">{discarded[card]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { BoardNode } from '../types';
+import {
+  Expr, Footprint, GATE_NOTATION, MAX_TABLE_VARIABLES, buildExpression, buildTruthTable, expressionFootprint,
+  simplifyTable, formatProducts, variableName,
+} from '../services/expressionService';
+import { Sigma } from 'lucide-react';
+
+interface ExpressionPanelProps {
+  board: BoardNode[];
+  inputs: (0 | 1)[];
+  onHighlight: (footprint: Footprint | null) => void; // Term under the pointer, for the board to light up
+}
+
+// One term of the expression; hovering it reports what it covers. Inner
+// terms stop the event so the smallest term under the pointer wins.
+const Term: React.FC<{ expr: Expr; outer?: boolean; onHighlight: ExpressionPanelProps['onHighlight'] }> = ({ expr, outer, onHighlight }) => {
+  const hover = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onHighlight(expressionFootprint(expr));
+  };
+  const span = 'rounded px-0.5 hover:bg-yellow-300/20 hover:text-yellow-200 cursor-default';
+
+  if (expr.kind === 'INPUT') return <span className={`${span} text-gray-200`} onMouseOver={hover}>{variableName(expr)}</span>;
+  if (expr.kind === 'UNKNOWN') return <span className={`${span} text-gray-500 italic`} onMouseOver={hover}>{variableName(expr)}</span>;
+
+  const { join, fn, negate } = GATE_NOTATION[expr.gate];
+  const args = expr.args.map((arg, i) => <Term key={i} expr={arg} onHighlight={onHighlight} />);
+  const compound = join !== undefined && args.length > 1;
+  const separated = (separator: string) => args.flatMap((arg, i) => (i === 0 ? [arg] : [<span key={`sep-${i}`} className="text-gray-500">{separator}</span>, arg]));
+  const body = fn ? <>{fn}({separated(', ')})</> : compound ? <>{separated(join!)}</> : args[0];
+  const bracketed = compound && (negate || !outer);
+
+  return (
+    <span className={span} onMouseOver={hover} title={`${expr.gate} at slot ${expr.slot}`}>
+      {negate && '¬'}{bracketed && '('}{body}{bracketed && ')'}
+    </span>
+  );
+};
+
+// The root as a boolean expression over the inputs, its simplest
+// sum-of-products form and its truth table. Empty slots are free variables.
+export const ExpressionPanel: React.FC<ExpressionPanelProps> = ({ board, inputs, onHighlight }) => {
+  const expr = buildExpression(board);
+  const table = buildTruthTable(expr);
+  // Rows that agree with the inputs on the board
+  const isCurrent = (values: (0 | 1)[]) =>
+    table!.variables.every((v, i) => v.kind !== 'INPUT' || inputs[v.index] === values[i]);
+
+  return (
+    <div className="bg-gray-900/80 p-4 rounded-xl border border-gray-800 text-xs text-gray-400">
+      <h3 className="text-sm font-bold text-gray-300 flex items-center gap-2 mb-3">
+        <Sigma size={14} /> EXPRESSION
+      </h3>
+
+      <div className="font-mono text-sm leading-relaxed break-words" onMouseLeave={() => onHighlight(null)}>
+        ROOT = <Term expr={expr} outer onHighlight={onHighlight} />
+      </div>
+
+      <div className="mt-3 text-[10px] text-gray-500">SIMPLIFIED</div>
+      <div className="font-mono text-sm text-gray-200 break-words">
+        {table ? formatProducts(simplifyTable(table)) : `Over ${MAX_TABLE_VARIABLES} variables, not simplified`}
+      </div>
+
+      {table && (
+        <div className="mt-3 max-h-64 overflow-auto">
+          <table className="w-full font-mono text-center">
+            <thead className="sticky top-0 bg-gray-900">
+              <tr className="text-[10px] text-gray-500">
+                {table.variables.map(v => (
+                  <th key={variableName(v)} className={`font-normal px-1 ${v.kind === 'UNKNOWN' ? 'italic' : ''}`}>{variableName(v)}</th>
+                ))}
+                <th className="font-normal px-1 text-gray-300">ROOT</th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, i) => (
+                <tr key={i} className={isCurrent(row.values) ? 'bg-yellow-300/10 text-yellow-100' : ''}>
+                  {row.values.map((v, j) => <td key={j}>{v}</td>)}
+                  <td className={`font-bold ${row.result === 1 ? 'text-green-400' : 'text-red-400'}`}>{row.result}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[10px] text-gray-500">Highlighted rows match the inputs on the board.</p>
+        </div>
+      )}
+    </div>
+  );
+};
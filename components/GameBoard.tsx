@@ -1,6 +1,12 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { BoardNode, GateType } from '../types';
+import { PlacementOutcome } from '../services/analysisService';
+import { Footprint } from '../services/expressionService';
+import { PropagationTimeline, frameAt } from '../services/propagationService';
+import { inputLabel, slotLabel } from '../services/accessibilityService';
 import { GateCard } from './GateCard';
+import { arrangeRows } from '../services/layoutService';
+import { ZoomIn, ZoomOut, Maximize, Lock } from 'lucide-react';
 
 interface GameBoardProps {
   board: BoardNode[];
@@ -8,27 +14,97 @@ interface GameBoardProps {
   onSlotClick: (id: number) => void;
   validSlots: number[]; // IDs of slots that can be clicked
   gateImages: Record<string, string>;
+  analysis?: Record<number, PlacementOutcome> | null; // Outcome of playing into each open slot
+  rootRange?: (0 | 1)[] | null; // Values the root can still reach
+  flippedInputs?: number[]; // Inputs inverted by FLIP
+  validInputs?: number[]; // Inputs that can be clicked (while a FLIP is selected)
+  onInputClick?: (index: number) => void;
+  highlight?: Footprint | null; // Slots and inputs of the hovered expression term
+  propagation?: PropagationTimeline | null; // Played once each time a new timeline is passed
+  timeScale?: number; // Playback slowdown; changing it plays the timeline again
 }
 
-// Coordinates for nodes (x, y in percentage)
-// 0: (50, 15)
-// 1: (30, 45), 2: (70, 45)
-// 3: (20, 75), 4: (40, 75), 5: (60, 75), 6: (80, 75)
-// Inputs: 8 items along bottom at y=95
-const NODE_COORDS = [
-  { x: 50, y: 10 },    // 0
-  { x: 30, y: 38 },    // 1
-  { x: 70, y: 38 },    // 2
-  { x: 15, y: 70 },    // 3
-  { x: 38, y: 70 },    // 4
-  { x: 62, y: 70 },    // 5
-  { x: 85, y: 70 },    // 6
-];
-
-const INPUT_Y = 92;
-
-export const GameBoard: React.FC<GameBoardProps> = ({ board, inputs, onSlotClick, validSlots, gateImages }) => {
-  
+// Layout is derived from the circuit graph.
+// Each slot sits in the row of its longest wire path up to the root, and the
+// slots of a row are spread evenly across the width, ordered by where the
+// slots reading them sit, so a binary tree keeps each parent centred above
+// its two children. The canvas gets a minimum width per slot in the widest
+// row and per input, so big boards scroll (and can be zoomed out) instead
+// of overlapping.
+const SLOT_COLUMN_WIDTH = 150; // px per slot in the widest row
+const INPUT_COLUMN_WIDTH = 56; // px per input
+const LEVEL_HEIGHT = 190; // px per gate level
+const INPUT_ROW_HEIGHT = 110; // px for the inputs at the bottom
+const TOP_MARGIN = 90; // px above the root, room for the output wire
+const ZOOM_STEPS = [0.4, 0.55, 0.7, 0.85, 1];
+
+// Wires don't rely on colour alone: a 1 is solid, a 0 dashed and no signal dotted
+const WIRE_DASHES = { 1: undefined, 0: '8 5', null: '2 5' };
+
+// Targets the keyboard can cycle through; see the key handler in App
+export const BOARD_TARGET_ATTRIBUTE = 'data-board-target';
+
+// Enter and Space press a focused target, as they would a button
+const pressOnKey = (action: () => void) => (e: React.KeyboardEvent) => {
+  if (e.key !== 'Enter' && e.key !== ' ') return;
+  e.preventDefault();
+  action();
+};
+
+const OutcomeStyles: Record<PlacementOutcome, { ring: string; badge: string; label: string }> = {
+  WIN: { ring: 'ring-green-400/70', badge: 'bg-green-500 text-black', label: 'FORCES WIN' },
+  LOSS: { ring: 'ring-red-500/70', badge: 'bg-red-500 text-white', label: 'FORCES LOSS' },
+  OPEN: { ring: 'ring-gray-400/40', badge: 'bg-gray-700 text-gray-200', label: 'UNRESOLVED' },
+};
+
+export const GameBoard: React.FC<GameBoardProps> = ({
+  board, inputs, onSlotClick, validSlots, gateImages, analysis, rootRange, flippedInputs = [], validInputs = [], onInputClick, highlight,
+  propagation, timeScale = 1,
+}) => {
+  const [zoom, setZoom] = useState(1);
+  // How far into which timeline the animation is; elapsed is null once it is over
+  const [clock, setClock] = useState<{ timeline: PropagationTimeline; elapsed: number | null } | null>(null);
+
+  useEffect(() => {
+    if (!propagation || propagation.events.length === 0) return;
+    const start = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const elapsed = (now - start) / timeScale;
+      setClock({ timeline: propagation, elapsed: elapsed >= propagation.duration ? null : elapsed });
+      if (elapsed < propagation.duration) frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [propagation, timeScale]);
+
+  // A timeline that hasn't ticked yet starts from its first frame, so the
+  // settled values never flash up before the animation
+  const elapsed = clock?.timeline === propagation ? clock.elapsed : propagation?.events.length ? 0 : null;
+  const signal = propagation && elapsed !== null ? frameAt(propagation, elapsed) : null;
+  const slotValue = (id: number) => (signal ? signal.values[id] : board[id].value);
+  const inputValue = (index: number) => (signal ? signal.inputs[index] : inputs[index]);
+
+  const rows = arrangeRows(board);
+  const widestRow = Math.max(...rows.map(row => row.length));
+  const canvasWidth = Math.max(widestRow * SLOT_COLUMN_WIDTH, inputs.length * INPUT_COLUMN_WIDTH);
+  const canvasHeight = TOP_MARGIN + (rows.length - 1) * LEVEL_HEIGHT + LEVEL_HEIGHT / 2 + INPUT_ROW_HEIGHT;
+  const inputY = ((canvasHeight - INPUT_ROW_HEIGHT / 2) / canvasHeight) * 100;
+
+  // Coordinates for nodes and inputs (x, y in percentage of the canvas)
+  const coords: { x: number; y: number; rowLength: number }[] = [];
+  rows.forEach((row, level) => row.forEach((id, position) => {
+    coords[id] = {
+      x: ((position + 0.5) / row.length) * 100,
+      y: ((TOP_MARGIN + level * LEVEL_HEIGHT) / canvasHeight) * 100,
+      rowLength: row.length,
+    };
+  }));
+  const getNodeCoords = (id: number) => coords[id];
+  const getInputX = (idx: number) => ((idx + 0.5) / inputs.length) * 100;
+
+  // Vertical offsets from a node's centre to where wires meet it
+  const wireTop = (40 / canvasHeight) * 100;
+  const wireBottom = (50 / canvasHeight) * 100;
+
   // Helper to get signal color
   const getSignalColor = (val: 0 | 1 | null) => {
     if (val === 1) return '#22c55e'; // Green
@@ -36,132 +112,205 @@ export const GameBoard: React.FC<GameBoardProps> = ({ board, inputs, onSlotClick
     return '#374151'; // Gray
   };
 
-  // Generate Wires SVG
-  // Connections:
-  // Node 1 -> Node 0
-  // Node 2 -> Node 0
-  // Node 3 -> Node 1, Node 4 -> Node 1
-  // Node 5 -> Node 2, Node 6 -> Node 2
-  // Inputs 0,1 -> Node 3 ... Inputs 6,7 -> Node 6
-  
-  const renderWire = (x1: number, y1: number, x2: number, y2: number, value: 0 | 1 | null, key: string) => {
+  const renderWire = (x1: number, y1: number, x2: number, y2: number, value: 0 | 1 | null, key: string, lit = false) => {
     const isActive = value !== null;
     return (
       <React.Fragment key={key}>
-        {/* Background dark line */}
-        <line x1={`${x1}%`} y1={`${y1}%`} x2={`${x2}%`} y2={`${y2}%`} stroke="#1f2937" strokeWidth="6" />
+        {/* Background dark line, yellow under a highlighted term */}
+        <line x1={`${x1}%`} y1={`${y1}%`} x2={`${x2}%`} y2={`${y2}%`} stroke={lit ? '#fde047' : '#1f2937'} strokeWidth={lit ? 9 : 6} />
         {/* Active glowing line */}
         <line 
           x1={`${x1}%`} y1={`${y1}%`} x2={`${x2}%`} y2={`${y2}%`} 
           stroke={getSignalColor(value)} 
           strokeWidth="3" 
+          strokeDasharray={WIRE_DASHES[value ?? 'null']}
           className={isActive ? 'drop-shadow-[0_0_5px_currentColor]' : ''}
-          style={{ transition: 'stroke 0.5s ease' }}
+          style={{ transition: `stroke ${signal ? 0.1 : 0.5}s ease` }}
         />
       </React.Fragment>
     );
   };
 
+  // Generate Wires SVG
+  // Every source of a slot gets its own wire, from a raw input or from the
+  // slot it reads. The wires land spread evenly across the slot's bottom edge.
   const wires = [];
+  const litSlot = (id: number) => !!highlight?.slots.includes(id);
+  const litInput = (index: number) => !!highlight?.inputs.includes(index);
 
-  // 1. Inputs to Leaf Nodes (3-6)
-  for (let i = 0; i < 4; i++) {
-    const targetNodeId = i + 3;
-    const targetNode = board[targetNodeId];
-    const targetX = NODE_COORDS[targetNodeId].x;
-    const targetY = NODE_COORDS[targetNodeId].y;
-    
-    // Left input for this node
-    const inputIdx1 = i * 2;
-    const inputX1 = 12 + (inputIdx1 * 10.8); // approximate spacing
-    wires.push(renderWire(inputX1, INPUT_Y, targetX - 3, targetY + 6, inputs[inputIdx1], `in-${inputIdx1}-node-${targetNodeId}`));
-
-    // Right input for this node
-    const inputIdx2 = i * 2 + 1;
-    const inputX2 = 12 + (inputIdx2 * 10.8);
-    wires.push(renderWire(inputX2, INPUT_Y, targetX + 3, targetY + 6, inputs[inputIdx2], `in-${inputIdx2}-node-${targetNodeId}`));
-  }
-
-  // 2. Leaf to Middle (3,4 -> 1) and (5,6 -> 2)
-  const leafPairs = [[3,4,1], [5,6,2]];
-  leafPairs.forEach(([src1, src2, target]) => {
-     wires.push(renderWire(NODE_COORDS[src1].x, NODE_COORDS[src1].y - 5, NODE_COORDS[target].x - 4, NODE_COORDS[target].y + 6, board[src1].value, `node-${src1}-node-${target}`));
-     wires.push(renderWire(NODE_COORDS[src2].x, NODE_COORDS[src2].y - 5, NODE_COORDS[target].x + 4, NODE_COORDS[target].y + 6, board[src2].value, `node-${src2}-node-${target}`));
-  });
+  board.forEach(node => {
+    const target = getNodeCoords(node.id);
+    // Spread the landing points by a fraction of the slot's column width
+    const spread = (100 / (target.rowLength * 4)) * 0.16;
+    const landingY = target.y + wireBottom;
 
-  // 3. Middle to Root (1,2 -> 0)
-  wires.push(renderWire(NODE_COORDS[1].x, NODE_COORDS[1].y - 5, NODE_COORDS[0].x - 4, NODE_COORDS[0].y + 6, board[1].value, `node-1-node-0`));
-  wires.push(renderWire(NODE_COORDS[2].x, NODE_COORDS[2].y - 5, NODE_COORDS[0].x + 4, NODE_COORDS[0].y + 6, board[2].value, `node-2-node-0`));
+    node.sources.forEach((source, side) => {
+      const count = node.sources.length;
+      const landingX = count === 1 ? target.x : target.x - spread + (2 * spread * side) / (count - 1);
+      // A wire is part of a term when both of its ends are
+      const lit = litSlot(node.id) && (source.kind === 'INPUT' ? litInput(source.index) : litSlot(source.index));
+      if (source.kind === 'INPUT') {
+        wires.push(renderWire(getInputX(source.index), inputY, landingX, landingY, inputValue(source.index), `in-${source.index}-node-${node.id}-${side}`, lit));
+      } else {
+        const from = getNodeCoords(source.index);
+        wires.push(renderWire(from.x, from.y - wireTop, landingX, landingY, slotValue(source.index), `node-${source.index}-node-${node.id}-${side}`, lit));
+      }
+    });
+  });
 
-  // 4. Root Output Wire
-  wires.push(renderWire(NODE_COORDS[0].x, NODE_COORDS[0].y - 5, NODE_COORDS[0].x, NODE_COORDS[0].y - 15, board[0].value, `root-output`));
+  // Root Output Wire
+  const root = getNodeCoords(0);
+  wires.push(renderWire(root.x, root.y - wireTop, root.x, 0, slotValue(0), `root-output`));
 
+  const zoomIndex = ZOOM_STEPS.indexOf(zoom);
 
   return (
-    <div className="relative w-full max-w-5xl aspect-[4/3] mx-auto select-none bg-gray-950/50 rounded-2xl border-2 border-gray-800 shadow-2xl overflow-hidden backdrop-blur-sm">
-      
-      {/* Circuit Grid Background */}
-      <div className="absolute inset-0 circuit-grid opacity-20 pointer-events-none" />
-
-      {/* SVG Layer for Wires */}
-      <svg className="absolute inset-0 w-full h-full pointer-events-none z-0">
-        {wires}
-      </svg>
-
-      {/* Inputs Row */}
-      <div className="absolute bottom-2 w-full flex justify-center gap-[3%] px-8 z-10">
-        {inputs.map((val, idx) => (
-          <div key={`input-${idx}`} className="flex flex-col items-center gap-1">
-             <div 
-               className={`w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center font-bold text-sm md:text-base shadow-lg
-               ${val === 1 ? 'bg-green-500 text-black shadow-green-500/50' : 'bg-red-500 text-white shadow-red-500/50'}`}
-             >
-               {val}
-             </div>
-             <span className="text-[10px] md:text-xs text-gray-500 font-mono">IN.{idx}</span>
-          </div>
-        ))}
+    <div role="group" aria-label="Circuit board" className="relative w-full max-w-5xl mx-auto select-none bg-gray-950/50 rounded-2xl border-2 border-gray-800 shadow-2xl backdrop-blur-sm">
+
+      {/* Zoom Controls */}
+      <div className="absolute top-2 right-2 z-30 flex gap-1 bg-gray-900/80 rounded-lg p-1 border border-gray-700">
+        <button
+          onClick={() => setZoom(ZOOM_STEPS[Math.max(0, zoomIndex - 1)])}
+          disabled={zoomIndex === 0}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-30"
+          title="Zoom out"
+        >
+          <ZoomOut size={16} />
+        </button>
+        <button onClick={() => setZoom(1)} className="p-1 rounded hover:bg-gray-700" title="Reset zoom">
+          <Maximize size={16} />
+        </button>
+        <button
+          onClick={() => setZoom(ZOOM_STEPS[Math.min(ZOOM_STEPS.length - 1, zoomIndex + 1)])}
+          disabled={zoomIndex === ZOOM_STEPS.length - 1}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-30"
+          title="Zoom in"
+        >
+          <ZoomIn size={16} />
+        </button>
       </div>
 
-      {/* Gate Slots */}
-      {board.map((node) => {
-        const { x, y } = NODE_COORDS[node.id];
-        const isValid = validSlots.includes(node.id);
-        const hasGate = node.gate !== null;
-
-        return (
-          <div
-            key={node.id}
-            onClick={() => isValid && onSlotClick(node.id)}
-            className={`absolute transform -translate-x-1/2 -translate-y-1/2 z-20 transition-all duration-300
-              ${isValid ? 'cursor-pointer hover:scale-105 ring-4 ring-white/20 rounded-xl' : ''}
-            `}
-            style={{ left: `${x}%`, top: `${y}%` }}
-          >
-             {hasGate ? (
-               <GateCard type={node.gate!} small imageUrl={gateImages[node.gate!]} />
-             ) : (
-               <div className={`
-                 w-20 h-28 md:w-28 md:h-40 rounded-xl border-4 border-dashed flex items-center justify-center
-                 bg-black/40 backdrop-blur-sm transition-colors
-                 ${isValid ? 'border-yellow-200 bg-white/5 animate-pulse' : 'border-gray-700 text-gray-700'}
-               `}>
-                 <span className="text-xs md:text-sm font-cyber opacity-50">SLOT {node.id}</span>
-               </div>
-             )}
-             
-             {/* Node Output Indicator */}
-             {hasGate && node.value !== null && (
-               <div className={`
-                 absolute -top-3 -right-3 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold border-2 border-black shadow-lg
-                 ${node.value === 1 ? 'bg-green-500 text-black' : 'bg-red-500 text-white'}
-               `}>
-                 {node.value}
-               </div>
-             )}
-          </div>
-        );
-      })}
+      {/* Analysis: values the root can still reach */}
+      {rootRange && (
+        <div className="absolute top-2 left-2 z-30 bg-gray-900/80 rounded-lg px-2 py-1 border border-gray-700 text-[10px] font-mono text-gray-300">
+          ROOT CAN REACH: {rootRange.join(' / ')}
+        </div>
+      )}
+
+      {/* Scrollable viewport */}
+      <div className="w-full max-h-[80vh] overflow-auto rounded-2xl">
+        <div
+          className="relative w-full"
+          style={{ minWidth: canvasWidth, height: canvasHeight, zoom }}
+        >
+
+          {/* Circuit Grid Background */}
+          <div className="absolute inset-0 circuit-grid opacity-20 pointer-events-none" />
+
+          {/* SVG Layer for Wires */}
+          <svg className="absolute inset-0 w-full h-full pointer-events-none z-0" aria-hidden="true">
+            {wires}
+          </svg>
+
+          {/* Inputs Row */}
+          {inputs.map((_, idx) => {
+            const val = inputValue(idx);
+            const isValid = validInputs.includes(idx);
+            const flipped = flippedInputs.includes(idx);
+            return (
+              <div
+                key={`input-${idx}`}
+                onClick={() => isValid && onInputClick?.(idx)}
+                onKeyDown={isValid ? pressOnKey(() => onInputClick?.(idx)) : undefined}
+                role={isValid ? 'button' : 'img'}
+                tabIndex={isValid ? 0 : undefined}
+                aria-label={inputLabel(idx, inputs[idx], flipped)}
+                {...(isValid ? { [BOARD_TARGET_ATTRIBUTE]: '' } : {})}
+                className={`absolute transform -translate-x-1/2 -translate-y-1/2 z-10 flex flex-col items-center gap-1 rounded-full
+                  focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-white
+                  ${isValid ? 'cursor-pointer hover:scale-110 transition-transform' : ''}`}
+                style={{ left: `${getInputX(idx)}%`, top: `${inputY}%` }}
+              >
+                 <div 
+                   className={`w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center font-bold text-sm md:text-base shadow-lg
+                   ${val === 1 ? 'bg-green-500 text-black shadow-green-500/50' : 'bg-red-500 text-white shadow-red-500/50'}
+                   ${isValid ? 'ring-4 ring-yellow-200 animate-pulse' : litInput(idx) ? 'ring-4 ring-yellow-300' : flipped ? 'ring-2 ring-teal-300' : ''}`}
+                 >
+                   {val}
+                 </div>
+                 <span className={`text-[10px] md:text-xs font-mono ${flipped ? 'text-teal-300' : 'text-gray-500'}`}>
+                   IN.{idx}{flipped && ' FLIPPED'}
+                 </span>
+              </div>
+            );
+          })}
+
+          {/* Gate Slots */}
+          {board.map((node) => {
+            const { x, y } = getNodeCoords(node.id);
+            const isValid = validSlots.includes(node.id);
+            const hasGate = node.gate !== null;
+            const value = slotValue(node.id);
+            const outcome = analysis?.[node.id];
+
+            return (
+              <div
+                key={node.id}
+                onClick={() => isValid && onSlotClick(node.id)}
+                onKeyDown={isValid ? pressOnKey(() => onSlotClick(node.id)) : undefined}
+                role="button"
+                tabIndex={isValid ? 0 : -1}
+                aria-disabled={!isValid}
+                aria-label={`${slotLabel(node)}${outcome ? `, ${OutcomeStyles[outcome].label.toLowerCase()}` : ''}`}
+                {...(isValid ? { [BOARD_TARGET_ATTRIBUTE]: '' } : {})}
+                className={`absolute transform -translate-x-1/2 -translate-y-1/2 z-20 transition-all duration-300
+                  focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-white focus-visible:rounded-xl
+                  ${isValid ? 'cursor-pointer hover:scale-105 ring-4 rounded-xl' : ''}
+                  ${outcome ? `ring-4 rounded-xl ${OutcomeStyles[outcome].ring}` : isValid ? 'ring-white/20' : ''}
+                  ${litSlot(node.id) ? 'ring-4 rounded-xl ring-yellow-300' : ''}
+                `}
+                style={{ left: `${x}%`, top: `${y}%` }}
+              >
+                 {hasGate ? (
+                   <GateCard type={node.gate!} small imageUrl={gateImages[node.gate!]} />
+                 ) : (
+                   <div className={`
+                     w-20 h-28 md:w-28 md:h-40 rounded-xl border-4 border-dashed flex items-center justify-center
+                     bg-black/40 backdrop-blur-sm transition-colors
+                     ${isValid ? 'border-yellow-200 bg-white/5 animate-pulse' : 'border-gray-700 text-gray-700'}
+                   `}>
+                     <span className="text-xs md:text-sm font-cyber opacity-50">SLOT {node.id}</span>
+                   </div>
+                 )}
+
+                 {/* Node Output Indicator */}
+                 {hasGate && value !== null && (
+                   <div className={`
+                     absolute -top-3 -right-3 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold border-2 border-black shadow-lg
+                     ${value === 1 ? 'bg-green-500 text-black' : 'bg-red-500 text-white'}
+                   `}>
+                     {value}
+                   </div>
+                 )}
+
+                 {/* Locked gates can't be overwritten */}
+                 {hasGate && node.locked && (
+                   <div className="absolute -top-3 -left-3 w-7 h-7 rounded-full flex items-center justify-center bg-sky-300 text-black border-2 border-black shadow-lg" title="Locked">
+                     <Lock size={14} />
+                   </div>
+                 )}
+
+                 {/* Analysis Badge */}
+                 {outcome && (
+                   <div className={`absolute -bottom-3 left-1/2 -translate-x-1/2 whitespace-nowrap px-2 py-0.5 rounded text-[9px] font-bold ${OutcomeStyles[outcome].badge}`}>
+                     {OutcomeStyles[outcome].label}
+                   </div>
+                 )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
     </div>
   );
 };
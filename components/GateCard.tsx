@@ -1,5 +1,6 @@
 import React from 'react';
 import { GateType } from '../types';
+import { gateFaceUrl, isProceduralFace } from '../services/gateArtService';
 
 interface GateCardProps {
   type: GateType;
@@ -16,30 +17,51 @@ const GateColors: Record<GateType, string> = {
   [GateType.XOR]: 'border-purple-400 shadow-purple-900/50',
   [GateType.NAND]: 'border-red-400 shadow-red-900/50',
   [GateType.NOR]: 'border-cyan-400 shadow-cyan-900/50',
+  [GateType.XNOR]: 'border-fuchsia-400 shadow-fuchsia-900/50',
+  [GateType.NOT]: 'border-orange-400 shadow-orange-900/50',
+  [GateType.BUFFER]: 'border-lime-400 shadow-lime-900/50',
+  [GateType.AND3]: 'border-amber-500 shadow-amber-900/50',
+  [GateType.OR3]: 'border-indigo-400 shadow-indigo-900/50',
+  [GateType.MAJ3]: 'border-emerald-400 shadow-emerald-900/50',
 };
 
+// A card in a hand is a toggle button; one sitting on the board is just an image
 export const GateCard: React.FC<GateCardProps> = ({ type, selected, onClick, disabled, small, imageUrl }) => {
+  const face = imageUrl || gateFaceUrl(type);
+  const press = () => !disabled && onClick?.();
   return (
     <div
-      onClick={!disabled ? onClick : undefined}
+      onClick={press}
+      onKeyDown={e => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        press();
+      }}
+      role={onClick ? 'button' : 'img'}
+      tabIndex={onClick && !disabled ? 0 : undefined}
+      aria-label={`${type} gate`}
+      aria-pressed={onClick ? !!selected : undefined}
+      aria-disabled={onClick ? !!disabled : undefined}
       className={`
         relative flex flex-col items-center justify-center 
         bg-gray-900 border-2 rounded-xl overflow-hidden
-        transition-all duration-200 
+        transition-all duration-200 focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-white 
         ${GateColors[type]}
         ${selected ? 'scale-110 shadow-[0_0_20px_currentColor] z-10 bg-gray-800 ring-2 ring-white' : 'shadow-md'}
         ${disabled ? 'opacity-50 cursor-not-allowed grayscale' : 'cursor-pointer hover:bg-gray-800 hover:scale-105'}
         ${small ? 'w-20 h-28 md:w-28 md:h-40' : 'w-32 h-44 md:w-40 md:h-56'}
       `}
     >
-      {/* Background Image Layer */}
-      {imageUrl ? (
-        <div className="absolute inset-0 z-0">
-          <img src={imageUrl} alt={type} className="w-full h-full object-cover" />
+      {/* Card Face: the given art, or the procedural schematic face */}
+      <div className="absolute inset-0 z-0">
+        <img src={face} alt="" className="w-full h-full object-cover" />
+      </div>
+
+      {/* AI art doesn't say which gate it is */}
+      {!isProceduralFace(face) && (
+        <div className="absolute bottom-0 inset-x-0 z-10 bg-black/70 text-center text-xs md:text-sm font-bold font-mono text-white py-0.5">
+          {type}
         </div>
-      ) : (
-        /* Fallback loading state */
-        <div className="absolute inset-0 z-0 bg-gray-800 animate-pulse" />
       )}
     </div>
   );
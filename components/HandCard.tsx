@@ -0,0 +1,18 @@
+import React from 'react';
+import { Card } from '../types';
+import { isGateCard } from '../services/actionCardService';
+import { GateCard } from './GateCard';
+import { ActionCard } from './ActionCard';
+
+interface HandCardProps {
+  card: Card;
+  selected?: boolean;
+  onClick?: () => void;
+  disabled?: boolean;
+  small?: boolean;
+  imageUrl?: string | null; // Gate art; action cards have none
+}
+
+// Any card a hand can hold
+export const HandCard: React.FC<HandCardProps> = ({ card, imageUrl, ...props }) =>
+  isGateCard(card) ? <GateCard type={card} imageUrl={imageUrl} {...props} /> : <ActionCard type={card} {...props} />;
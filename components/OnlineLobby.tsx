@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { OnlineSession, OnlineStatus, defaultRelayUrl } from '../services/onlineService';
+import { ArrowLeft, Globe, LogIn, Plus, RotateCcw } from 'lucide-react';
+
+interface OnlineLobbyProps {
+  status: OnlineStatus | null; // null until a connection is opened
+  room: string | null; // Room created and waiting for an opponent
+  error: string | null;
+  savedSession: OnlineSession | null; // A seat this tab held before a reload
+  onCreate: (url: string) => void;
+  onJoin: (url: string, room: string) => void;
+  onResume: (session: OnlineSession) => void;
+  onBack: () => void;
+}
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 font-mono text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500";
+
+// Create a room (with the circuit and deck picked on the start screen) or
+// join one by its code
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ status, room, error, savedSession, onCreate, onJoin, onResume, onBack }) => {
+  const [url, setUrl] = useState(() => savedSession?.url ?? defaultRelayUrl());
+  const [code, setCode] = useState('');
+  const busy = status === 'CONNECTING' || status === 'RECONNECTING';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black text-white p-4 overflow-hidden relative">
+      <div className="absolute inset-0 circuit-grid opacity-30"></div>
+      <div className="z-10 max-w-md w-full bg-gray-900/80 backdrop-blur-md p-8 rounded-2xl border border-cyan-500/30 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <button onClick={onBack} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Back to menu">
+            <ArrowLeft size={20} />
+          </button>
+          <h1 className="text-3xl font-cyber text-cyan-300 flex items-center gap-2"><Globe size={24} /> ONLINE</h1>
+          <span className="text-[10px] font-mono text-gray-500">{status ?? 'OFFLINE'}</span>
+        </div>
+
+        {room ? (
+          <div className="text-center py-6">
+            <p className="text-xs text-gray-500 tracking-widest mb-2">ROOM CODE</p>
+            <p className="text-5xl font-cyber tracking-[0.3em] text-white mb-4">{room}</p>
+            <p className="text-sm text-gray-400 animate-pulse">Waiting for an opponent to join...</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500 tracking-widest">RELAY SERVER</span>
+              <input value={url} onChange={e => setUrl(e.target.value)} className={inputClass} />
+            </label>
+
+            <button
+              onClick={() => onCreate(url)}
+              disabled={busy}
+              className="w-full py-3 bg-gray-800 hover:bg-gray-700 border border-cyan-500/50 rounded-xl transition-all flex items-center justify-center gap-2 font-bold disabled:opacity-40"
+            >
+              <Plus size={18} /> CREATE ROOM
+            </button>
+
+            <div className="flex gap-2">
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value.toUpperCase())}
+                placeholder="ROOM CODE"
+                maxLength={8}
+                className={`${inputClass} flex-1 min-w-0 uppercase tracking-widest`}
+              />
+              <button
+                onClick={() => onJoin(url, code)}
+                disabled={busy || !code.trim()}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-600 rounded-xl font-bold text-sm flex items-center gap-2 disabled:opacity-40"
+              >
+                <LogIn size={16} /> JOIN
+              </button>
+            </div>
+
+            {savedSession && (
+              <button
+                onClick={() => onResume(savedSession)}
+                disabled={busy}
+                className="w-full py-2 rounded-xl border border-gray-700 bg-gray-900 hover:bg-gray-800 text-xs font-bold text-gray-400 flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                <RotateCcw size={14} /> REJOIN ROOM {savedSession.room}
+              </button>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Start the relay with <code className="text-gray-300">npm run relay</code>. The room uses the circuit and deck picked on the start screen.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Puzzle } from '../types';
+import { checkPuzzle, parsePuzzle, PuzzleCheck, PuzzleProgress } from '../services/puzzleService';
+import { ArrowLeft, CheckCircle2, Lock, Upload } from 'lucide-react';
+
+interface PuzzleSelectProps {
+  puzzles: Puzzle[];
+  progress: Record<string, PuzzleProgress>;
+  onPlay: (puzzle: Puzzle) => void;
+  onBack: () => void;
+}
+
+interface PuzzleEntry {
+  puzzle: Puzzle;
+  status: 'CHECKING' | 'SOLVABLE' | 'INVALID';
+  solutionLength?: number; // Once SOLVABLE
+  error?: string; // Why it is INVALID
+}
+
+const checking = (puzzle: Puzzle): PuzzleEntry => ({ puzzle, status: 'CHECKING' });
+
+const checked = ({ puzzle, solution }: PuzzleCheck): PuzzleEntry =>
+  ({ puzzle, status: 'SOLVABLE', solutionLength: solution.length });
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+export const PuzzleSelect: React.FC<PuzzleSelectProps> = ({ puzzles, progress, onPlay, onBack }) => {
+  // Built-in puzzles are proved solvable here too, so the list shows par.
+  // Proofs run in a worker and fill in as they finish.
+  const [builtins, setBuiltins] = useState<PuzzleEntry[]>(() => puzzles.map(checking));
+  const [custom, setCustom] = useState<PuzzleEntry[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBuiltins(puzzles.map(checking));
+    puzzles.forEach((puzzle, i) => {
+      checkPuzzle(puzzle)
+        .then(checked, (err): PuzzleEntry => ({ puzzle, status: 'INVALID', error: errorMessage(err) }))
+        .then(entry => {
+          if (!cancelled) setBuiltins(prev => prev.map((b, j) => (j === i ? entry : b)));
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [puzzles]);
+
+  // A file may hold one puzzle or a list of them. Its puzzles are listed
+  // straight away and dropped again unless they are proved solvable.
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    let uploaded: Puzzle[];
+    try {
+      const data = JSON.parse(await file.text());
+      uploaded = (Array.isArray(data) ? data : [data]).map(parsePuzzle);
+    } catch (err) {
+      setUploadError(err instanceof SyntaxError ? 'File is not valid JSON.' : err instanceof Error ? err.message : 'Could not read puzzle file.');
+      return;
+    }
+    const replaces = (c: PuzzleEntry) => uploaded.some(puzzle => puzzle.id === c.puzzle.id);
+    setCustom(prev => [...prev.filter(c => !replaces(c)), ...uploaded.map(checking)]);
+    setUploadError(null);
+    uploaded.forEach(puzzle => {
+      checkPuzzle(puzzle).then(
+        check => setCustom(prev => prev.map(c => (c.puzzle === puzzle ? checked(check) : c))),
+        err => {
+          setCustom(prev => prev.filter(c => c.puzzle !== puzzle));
+          setUploadError(errorMessage(err));
+        }
+      );
+    });
+  };
+
+  const renderEntry = ({ puzzle, status, solutionLength, error }: PuzzleEntry) => {
+    const done = progress[puzzle.id];
+    return (
+      <button
+        key={puzzle.id}
+        onClick={() => onPlay(puzzle)}
+        disabled={status === 'CHECKING' || status === 'INVALID'}
+        className="w-full text-left p-4 bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-yellow-500/50 rounded-xl transition-all flex items-center gap-4 disabled:opacity-40"
+        title={error}
+      >
+        {done?.completed
+          ? <CheckCircle2 className="text-green-400 shrink-0" />
+          : <Lock className="text-yellow-400 shrink-0" />}
+        <div className="flex-1 min-w-0">
+          <div className="font-bold">{puzzle.title}</div>
+          {puzzle.description && <div className="text-xs text-gray-400 truncate">{puzzle.description}</div>}
+        </div>
+        <div className="text-[10px] font-mono text-gray-400 text-right shrink-0">
+          <div>DEPTH {puzzle.depth} · TARGET {puzzle.target}</div>
+          <div>
+            {status === 'CHECKING' ? 'CHECKING…'
+              : status === 'INVALID' ? 'INVALID'
+              : `PAR ${solutionLength} · LIMIT ${puzzle.moveLimit}`}
+          </div>
+          {done?.bestMoves != null && <div className="text-green-400">BEST {done.bestMoves}</div>}
+        </div>
+      </button>
+    );
+  };
+
+  const solved = builtins.filter(b => progress[b.puzzle.id]?.completed).length;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black text-white p-4 overflow-hidden relative">
+      <div className="absolute inset-0 circuit-grid opacity-30"></div>
+      <div className="z-10 max-w-lg w-full bg-gray-900/80 backdrop-blur-md p-8 rounded-2xl border border-yellow-500/30 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <button onClick={onBack} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Back to menu">
+            <ArrowLeft size={20} />
+          </button>
+          <h1 className="text-3xl font-cyber text-yellow-300">CRACK THE LOCK</h1>
+          <span className="text-xs font-mono text-gray-400">{solved}/{builtins.length}</span>
+        </div>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {builtins.map(renderEntry)}
+          {custom.length > 0 && <p className="pt-2 text-xs text-gray-500 tracking-widest">CUSTOM</p>}
+          {custom.map(renderEntry)}
+        </div>
+
+        <label className="mt-4 w-full py-2 rounded-xl border border-gray-700 bg-gray-900 hover:bg-gray-800 text-xs font-bold text-gray-400 flex items-center justify-center gap-2 cursor-pointer transition-colors">
+          <Upload size={14} /> LOAD PUZZLE FILE
+          <input type="file" accept="application/json,.json" onChange={handleUpload} className="hidden" />
+        </label>
+        {uploadError && <p className="mt-2 text-xs text-red-400">{uploadError}</p>}
+      </div>
+    </div>
+  );
+};
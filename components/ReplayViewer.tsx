@@ -0,0 +1,232 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { GameState, MatchRecord } from '../types';
+import { GameBoard } from './GameBoard';
+import { HandCard } from './HandCard';
+import { replayMatch } from '../services/matchRecordService';
+import { describeAction } from '../services/gameEngine';
+import { analyzePlacements, bestOutcomes, getRootRange } from '../services/analysisService';
+import { formatClock } from '../services/clockService';
+import { PropagationTimeline, simulatePropagation } from '../services/propagationService';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Play, Pause, X, Zap, Lightbulb } from 'lucide-react';
+
+interface ReplayViewerProps {
+  record: MatchRecord;
+  gateImages: Record<string, string>;
+  onExit: () => void;
+}
+
+const AUTOPLAY_INTERVAL_MS = 1200;
+
+// A record that does not replay (e.g. one hand-edited after import) shows
+// what went wrong instead of taking the app down with it
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ record, gateImages, onExit }) => {
+  // Frame 0 is the starting position, frame i the position after move i
+  const replayed = useMemo(() => {
+    try {
+      return { frames: replayMatch(record), error: null };
+    } catch (err) {
+      return { frames: null, error: err instanceof Error ? err.message : 'The match could not be replayed.' };
+    }
+  }, [record]);
+
+  if (!replayed.frames) {
+    return (
+      <div className="min-h-screen bg-[#050505] text-white flex flex-col items-center justify-center gap-4 px-4">
+        <span className="font-cyber text-xl">REPLAY UNAVAILABLE</span>
+        <p className="max-w-md text-center text-sm font-mono text-red-400">{replayed.error}</p>
+        <button
+          onClick={onExit}
+          className="px-4 py-2 text-xs font-bold flex items-center gap-2 border border-gray-600 rounded hover:bg-gray-800 transition-colors"
+        >
+          <X size={14} /> CLOSE
+        </button>
+      </div>
+    );
+  }
+  return <ReplayPlayer record={record} frames={replayed.frames} gateImages={gateImages} onExit={onExit} />;
+};
+
+const ReplayPlayer: React.FC<ReplayViewerProps & { frames: GameState[] }> = ({ record, frames, gateImages, onExit }) => {
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysisCard, setAnalysisCard] = useState<number | null>(null);
+  const lastStep = frames.length - 1;
+
+  // Autoplay advances one move per tick and stops at the end
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => Math.min(s + 1, lastStep)), AUTOPLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, lastStep]);
+
+  const goTo = (target: number) => {
+    setStep(Math.max(0, Math.min(lastStep, target)));
+  };
+
+  // A different position has a different hand to analyse
+  useEffect(() => setAnalysisCard(null), [step]);
+
+  // Stepping forward one move animates its signals; jumps just show the position
+  const [propagation, setPropagation] = useState<PropagationTimeline | null>(null);
+  const shownStep = useRef(step);
+  useLayoutEffect(() => {
+    const previous = shownStep.current;
+    shownStep.current = step;
+    setPropagation(step === previous + 1 ? simulatePropagation(frames[step].board, frames[step].inputs, { before: frames[previous] }) : null);
+  }, [step, frames]);
+
+  const frame = frames[step];
+  const move = step > 0 ? record.moves[step - 1] : null;
+  // The move is described against the position it was played from
+  const moveDescription = move ? describeAction(frames[step - 1], move.action) : 'Opening position';
+  const moveTime = move?.action.elapsedMs !== undefined ? ` in ${(move.action.elapsedMs / 1000).toFixed(1)} s` : '';
+  const lines = record.commentary.filter(c => c.turn === step);
+  const { winner, rootValue } = record.result;
+
+  // Analysis is for the player about to move; pick one of their cards to focus on it
+  const analysisOn = showAnalysis && !frame.winner;
+  const placements = analysisOn ? analyzePlacements(frame, frame.currentPlayer) : null;
+  const slotOutcomes = placements && (analysisCard !== null ? placements[analysisCard] : bestOutcomes(placements));
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-white flex flex-col items-center py-4 px-2 sm:px-4">
+
+      {/* Header */}
+      <header className="w-full max-w-7xl flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
+        <div className="flex flex-col">
+          <span className="font-cyber text-xl">REPLAY</span>
+          <span className="text-[10px] font-mono text-gray-500">
+            {record.players.P1.name} vs {record.players.P2.name} · SEED {record.seed} · {new Date(record.createdAt).toLocaleString()}
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-xs font-mono text-gray-400">
+            {winner === null ? 'UNFINISHED' : winner === 'DRAW' ? 'DRAW' : `${record.players[winner].name} WON (${rootValue})`}
+          </span>
+          <button
+            onClick={() => setShowAnalysis(!showAnalysis)}
+            className={`p-2 rounded-full transition-colors ${showAnalysis ? 'bg-yellow-500/20 text-yellow-300' : 'hover:bg-gray-800'}`}
+            title={showAnalysis ? 'Hide move analysis' : 'Show move analysis'}
+          >
+            <Lightbulb size={20} />
+          </button>
+          <button onClick={onExit} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Close replay">
+            <X size={20} />
+          </button>
+        </div>
+      </header>
+
+      {/* Move + Commentary */}
+      <div className="w-full max-w-5xl mb-4 bg-gray-900/50 border-l-4 border-yellow-500 p-3 rounded-r-lg shadow-lg backdrop-blur flex items-start gap-3">
+        <div className="p-2 bg-yellow-500/10 rounded-full">
+           <Zap size={16} className="text-yellow-500" />
+        </div>
+        <div className="flex flex-col gap-1">
+          <p className="text-sm font-mono text-gray-300">
+            {move ? `#${step} ${frames[step - 1].players[move.action.playerId].name}: ${moveDescription}${moveTime}` : moveDescription}
+          </p>
+          {frame.clock && (
+            <p className="text-[10px] font-mono text-gray-500">
+              CLOCKS: {frame.players.P1.name} {formatClock(frame.clock.remainingMs.P1)} · {frame.players.P2.name} {formatClock(frame.clock.remainingMs.P2)}
+            </p>
+          )}
+          {lines.map((line, i) => (
+            <p key={i} className="text-sm md:text-base font-mono text-yellow-100/90 italic">"{line.text}"</p>
+          ))}
+        </div>
+      </div>
+
+      <main className="w-full max-w-7xl grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6 flex-grow">
+        <div className="flex flex-col">
+          <GameBoard
+            board={frame.board}
+            inputs={frame.inputs}
+            onSlotClick={() => {}}
+            validSlots={[]}
+            gateImages={gateImages}
+            analysis={slotOutcomes}
+            rootRange={analysisOn ? getRootRange(frame) : null}
+            flippedInputs={frame.flippedInputs}
+            propagation={propagation}
+          />
+
+          {/* Transport Controls */}
+          <div className="mt-4 flex flex-col gap-3 bg-gray-900/80 p-4 rounded-xl border border-gray-800">
+            <input
+              type="range"
+              min={0}
+              max={lastStep}
+              value={step}
+              onChange={e => {
+                setPlaying(false);
+                goTo(Number(e.target.value));
+              }}
+              className="w-full accent-yellow-400"
+            />
+            <div className="flex items-center justify-center gap-2">
+              <button onClick={() => goTo(0)} disabled={step === 0} className="p-2 rounded hover:bg-gray-800 disabled:opacity-30" title="First move">
+                <ChevronsLeft size={18} />
+              </button>
+              <button onClick={() => goTo(step - 1)} disabled={step === 0} className="p-2 rounded hover:bg-gray-800 disabled:opacity-30" title="Step back">
+                <ChevronLeft size={18} />
+              </button>
+              <button
+                onClick={() => {
+                  if (step >= lastStep) setStep(0);
+                  setPlaying(!playing);
+                }}
+                className="p-2 rounded-full bg-yellow-500 text-black hover:scale-105 transition-transform"
+                title={playing ? 'Pause' : 'Autoplay'}
+              >
+                {playing ? <Pause size={18} /> : <Play size={18} />}
+              </button>
+              <button onClick={() => goTo(step + 1)} disabled={step === lastStep} className="p-2 rounded hover:bg-gray-800 disabled:opacity-30" title="Step forward">
+                <ChevronRight size={18} />
+              </button>
+              <button onClick={() => goTo(lastStep)} disabled={step === lastStep} className="p-2 rounded hover:bg-gray-800 disabled:opacity-30" title="Last move">
+                <ChevronsRight size={18} />
+              </button>
+              <span className="ml-4 text-xs font-mono text-gray-500">MOVE {step} / {lastStep}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Hands at this point of the match */}
+        <div className="flex flex-col gap-4">
+          {(['P1', 'P2'] as const).map(id => (
+            <div
+              key={id}
+              className={`bg-gray-900/80 p-4 rounded-xl border-t-4 ${id === 'P1' ? 'border-blue-500' : 'border-red-500'}
+                ${frame.currentPlayer === id && !frame.winner ? '' : 'opacity-50'}`}
+            >
+              <h3 className={`text-sm font-bold mb-3 ${id === 'P1' ? 'text-blue-400' : 'text-red-400'}`}>
+                {frame.players[id].name.toUpperCase()}
+              </h3>
+              <div className="flex flex-wrap gap-2 justify-center lg:justify-start">
+                {frame.players[id].hand.map((card, i) => {
+                  const selectable = analysisOn && frame.currentPlayer === id;
+                  return (
+                    <HandCard
+                      key={`${id}-${i}`}
+                      card={card}
+                      small
+                      selected={selectable && analysisCard === i}
+                      onClick={() => setAnalysisCard(analysisCard === i ? null : i)}
+                      disabled={!selectable}
+                      imageUrl={gateImages[card]}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
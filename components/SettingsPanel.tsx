@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { LLMProviderId, LLMSettings, CardArt, AudioSettings } from '../types';
+import { LLM_PROVIDERS, PROVIDER_DEFAULTS } from '../services/llmService';
+import { CARD_ART_OPTIONS } from '../services/gateArtService';
+import { Settings, X } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: LLMSettings;
+  cardArt: CardArt;
+  audio: AudioSettings;
+  onSave: (settings: LLMSettings, cardArt: CardArt, audio: AudioSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-900 border border-gray-700 rounded-xl px-3 py-2 font-mono text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500";
+
+// Card look, sound levels, and which LLM backend drives Cortex commentary, Cortex moves and gate art
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, cardArt, audio, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const [art, setArt] = useState(cardArt);
+  const [sound, setSound] = useState(audio);
+  const update = (changes: Partial<LLMSettings>) => setDraft({ ...draft, ...changes });
+
+  // Switching provider resets the models to ones that backend understands
+  const selectProvider = (provider: LLMProviderId) => {
+    setDraft({ ...draft, provider, ...PROVIDER_DEFAULTS[provider] });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 p-6 rounded-2xl border-2 border-blue-500/30 w-full max-w-md text-left">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-cyber flex items-center gap-2"><Settings size={18} /> SETTINGS</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 tracking-widest">CARD ART</span>
+            <div className="flex rounded-xl overflow-hidden border border-gray-700">
+              {CARD_ART_OPTIONS.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => setArt(s.id)}
+                  className={`flex-1 py-2 text-xs font-bold transition-colors
+                    ${art === s.id ? 'bg-blue-500/20 text-blue-300' : 'bg-gray-900 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 tracking-widest">SOUND</span>
+            {(['master', 'sfx'] as const).map(channel => (
+              <label key={channel} className="flex items-center gap-3 text-xs font-mono text-gray-400">
+                <span className="w-14">{channel === 'master' ? 'MASTER' : 'EFFECTS'}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(sound[channel] * 100)}
+                  onChange={e => setSound({ ...sound, [channel]: Number(e.target.value) / 100 })}
+                  disabled={sound.muted}
+                  className="flex-1 accent-blue-500 disabled:opacity-40"
+                />
+                <span className="w-8 text-right">{Math.round(sound[channel] * 100)}</span>
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-xs font-mono text-gray-400">
+              <input type="checkbox" checked={sound.muted} onChange={e => setSound({ ...sound, muted: e.target.checked })} className="accent-blue-500" />
+              MUTE ALL SOUND
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 tracking-widest">AI PROVIDER</span>
+            <select value={draft.provider} onChange={e => selectProvider(e.target.value as LLMProviderId)} className={inputClass}>
+              {LLM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+
+          {draft.provider === 'OPENAI' && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500 tracking-widest">BASE URL</span>
+              <input value={draft.baseUrl} onChange={e => update({ baseUrl: e.target.value })} placeholder="http://localhost:8080/v1" className={inputClass} />
+            </label>
+          )}
+
+          {draft.provider !== 'MOCK' && (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">MODEL</span>
+                <input value={draft.model} onChange={e => update({ model: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">IMAGE MODEL</span>
+                <input value={draft.imageModel} onChange={e => update({ imageModel: e.target.value })} placeholder="NONE (PLAIN CARDS)" className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 tracking-widest">API KEY</span>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={e => update({ apiKey: e.target.value })}
+                  placeholder={draft.provider === 'GEMINI' ? 'BUILT-IN KEY' : 'NONE'}
+                  className={inputClass}
+                />
+              </label>
+            </>
+          )}
+
+          {draft.provider === 'MOCK' && (
+            <p className="text-xs text-gray-500">Canned commentary and simple moves, no network needed.</p>
+          )}
+        </div>
+
+        <button
+          onClick={() => onSave(draft, art, sound)}
+          className="mt-6 w-full py-2 bg-white text-black font-bold rounded hover:scale-[1.02] transition-transform"
+        >
+          SAVE
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { PlayerId } from '../types';
+import { GameBoard } from './GameBoard';
+import { HandCard } from './HandCard';
+import { SharedPosition, positionToState } from '../services/shareService';
+import { Eye, GitFork, X } from 'lucide-react';
+
+interface SpectatorViewProps {
+  position: SharedPosition;
+  gateImages: Record<string, string>;
+  onFork: () => void;
+  onExit: () => void;
+}
+
+// A position opened from a link, read-only. Redacted hands show as card backs,
+// and a link without a seed can't be forked.
+export const SpectatorView: React.FC<SpectatorViewProps> = ({ position, gateImages, onFork, onExit }) => {
+  const state = useMemo(() => positionToState(position), [position]);
+  const { winner } = state;
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-white flex flex-col items-center py-4 px-2 sm:px-4">
+
+      {/* Header */}
+      <header className="w-full max-w-7xl flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
+        <div className="flex flex-col">
+          <span className="font-cyber text-xl flex items-center gap-2"><Eye size={18} /> SPECTATING</span>
+          <span className="text-[10px] font-mono text-gray-500">
+            {position.layout.name} · {position.seed === null ? 'SEED NOT SHARED' : `SEED ${position.seed}`} · TURN {position.turnCount + 1}
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-xs font-mono text-gray-400">
+            {winner === null ? `PLAYER ${position.turn === 'P1' ? 1 : 2} TO MOVE` : winner === 'DRAW' ? 'DRAW' : `PLAYER ${winner === 'P1' ? 1 : 2} WON`}
+          </span>
+          {position.seed !== null && (
+            <button
+              onClick={onFork}
+              className="px-3 py-2 rounded-xl border border-blue-500/50 bg-blue-500/20 text-blue-300 text-xs font-bold flex items-center gap-2 hover:bg-blue-500/30 transition-colors"
+              title="Play on from here as a new hot-seat game"
+            >
+              <GitFork size={14} /> FORK INTO LOCAL GAME
+            </button>
+          )}
+          <button onClick={onExit} className="p-2 hover:bg-gray-800 rounded-full transition-colors" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+      </header>
+
+      <main className="w-full max-w-7xl grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6 flex-grow">
+        <GameBoard
+          board={state.board}
+          inputs={state.inputs}
+          onSlotClick={() => {}}
+          validSlots={[]}
+          gateImages={gateImages}
+          flippedInputs={state.flippedInputs}
+        />
+
+        {/* Hands as shared */}
+        <div className="flex flex-col gap-4">
+          {(['P1', 'P2'] as PlayerId[]).map(id => {
+            const hand = position.hands[id];
+            return (
+              <div
+                key={id}
+                className={`bg-gray-900/80 p-4 rounded-xl border-t-4 ${id === 'P1' ? 'border-blue-500' : 'border-red-500'}
+                  ${position.turn === id && !winner ? '' : 'opacity-50'}`}
+              >
+                <h3 className={`text-sm font-bold mb-3 ${id === 'P1' ? 'text-blue-400' : 'text-red-400'}`}>
+                  PLAYER {id === 'P1' ? 1 : 2}
+                </h3>
+                <div className="flex flex-wrap gap-2 justify-center lg:justify-start">
+                  {typeof hand === 'number' ? (
+                    <>
+                      {Array.from({ length: hand }, (_, i) => (
+                        <div key={i} className="w-16 h-24 rounded-xl border-2 border-gray-700 bg-gray-800 circuit-grid opacity-60" />
+                      ))}
+                      <span className="w-full text-[10px] font-mono text-gray-500">{hand} CARDS, NOT SHARED</span>
+                    </>
+                  ) : hand.map((card, i) => (
+                    <HandCard key={`${id}-${i}`} card={card} small disabled imageUrl={gateImages[card]} />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
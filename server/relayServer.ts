@@ -0,0 +1,244 @@
+import { randomBytes, randomInt } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { ActionErrorCode, ClientMessage, DeckComposition, GameAction, GameState, OnlineGameOptions, OnlineView, PlayerId, ServerMessage } from '../types';
+import { createGame, reduce, validateAction, getOpponent } from '../services/gameEngine';
+import { parseLayout } from '../services/layoutService';
+import { MIN_DEPTH, MAX_DEPTH } from '../services/logicService';
+import { DECK_EMPTY_RULES, deckOf } from '../services/deckService';
+import { SEAT_TAKEN_CLOSE_CODE } from '../services/onlineService';
+import { CARD_TYPES } from '../services/actionCardService';
+import { isCount, isObject } from '../services/jsonService';
+
+// Relay server for online matches. It owns the authoritative game state of
+// every room and runs each move through the same engine as local play, so a
+// client can only ever change the game with a legal action for its own seat.
+//
+//   npm run relay                 (listens on ws://localhost:8787)
+//   RELAY_PORT=9000 npm run relay
+
+const PORT = Number(process.env.RELAY_PORT ?? 8787);
+const HOST = process.env.RELAY_HOST ?? 'localhost';
+const ROOM_TTL_MS = 30 * 60 * 1000; // A room nobody is connected to is dropped after this long
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, they read like digits
+const ROOM_CODE_LENGTH = 5;
+const CARDS = CARD_TYPES as string[];
+// Rooms are untimed, so clients never send TIMEOUT
+const PLAYABLE: GameAction['type'][] = ['PLACE', 'DISCARD', 'OVERWRITE', 'LOCK', 'FLIP', 'PEEK'];
+
+interface Seat {
+  token: string; // Proves who is taking the seat back after a reconnect
+  socket: WebSocket | null; // null while disconnected
+  left: boolean;
+}
+
+interface Room {
+  code: string;
+  options: OnlineGameOptions;
+  state: GameState;
+  seats: Partial<Record<PlayerId, Seat>>;
+  idleSince: number | null; // When the last player disconnected
+}
+
+const rooms = new Map<string, Room>();
+const seatOf = new Map<WebSocket, { room: Room; id: PlayerId }>();
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const newRoomCode = (): string => {
+  let code: string;
+  do {
+    code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_LETTERS[randomInt(ROOM_CODE_LETTERS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const newGame = (options: OnlineGameOptions): GameState =>
+  createGame({ isAI: false, ...options, seed: randomBytes(6).toString('hex') });
+
+// The room options a client asked for, limited to what local play allows
+const parseOptions = (data: unknown): OnlineGameOptions => {
+  const options: OnlineGameOptions = {};
+  if (data === undefined) return options;
+  if (!isObject(data)) throw new Error('Room options must be an object.');
+  const { depth, layout, deckComposition, deckEmptyRule } = data;
+  if (depth !== undefined) {
+    if (typeof depth !== 'number' || !Number.isInteger(depth) || depth < MIN_DEPTH || depth > MAX_DEPTH) {
+      throw new Error(`Depth must be between ${MIN_DEPTH} and ${MAX_DEPTH}.`);
+    }
+    options.depth = depth;
+  }
+  if (layout !== undefined) options.layout = parseLayout(layout);
+  if (deckComposition !== undefined) {
+    if (!isObject(deckComposition) || !CARDS.every(g => deckComposition[g] === undefined || isCount(deckComposition[g]))) {
+      throw new Error('Deck composition has an invalid card count.');
+    }
+    options.deckComposition = deckOf(deckComposition as Partial<DeckComposition>);
+  }
+  if (deckEmptyRule !== undefined) {
+    const rule = DECK_EMPTY_RULES.find(r => r === deckEmptyRule);
+    if (!rule) throw new Error('Deck has an unknown empty-pile rule.');
+    options.deckEmptyRule = rule;
+  }
+  return options;
+};
+
+// What one player is allowed to see. Everything is revealed once the game
+// is over, so the finished match can be replayed and downloaded.
+const viewFor = (room: Room, id: PlayerId): OnlineView => {
+  const { state } = room;
+  const opponentId = getOpponent(id);
+  const seat = room.seats[opponentId];
+  const opponent = !seat ? 'WAITING' : seat.left ? 'LEFT' : seat.socket ? 'CONNECTED' : 'DISCONNECTED';
+  const handSizes = { P1: state.players.P1.hand.length, P2: state.players.P2.hand.length };
+  const drawPileSize = state.deck.drawPile.length;
+  if (state.winner) return { room: room.code, you: id, opponent, state, handSizes, drawPileSize };
+
+  return {
+    room: room.code,
+    you: id,
+    opponent,
+    handSizes,
+    drawPileSize,
+    state: {
+      ...state,
+      seed: '',
+      rngState: 0,
+      players: { ...state.players, [opponentId]: { ...state.players[opponentId], hand: [] } },
+      deck: { ...state.deck, drawPile: [] },
+      moves: state.moves.map(m => (m.action.playerId === id ? m : { ...m, hand: [] })),
+    },
+  };
+};
+
+const broadcast = (room: Room) => {
+  (Object.keys(room.seats) as PlayerId[]).forEach(id => {
+    send(room.seats[id]!.socket, { type: 'VIEW', view: viewFor(room, id) });
+  });
+};
+
+const takeSeat = (socket: WebSocket, room: Room, id: PlayerId, seat: Seat) => {
+  const previous = seat.socket;
+  seat.socket = socket;
+  room.idleSince = null;
+  seatOf.set(socket, { room, id });
+  // A stale connection for the same seat (e.g. a second tab) is replaced
+  if (previous && previous !== socket) {
+    seatOf.delete(previous);
+    send(previous, { type: 'ERROR', message: 'This seat was taken over by another connection.' });
+    previous.close(SEAT_TAKEN_CLOSE_CODE);
+  }
+  send(socket, { type: 'JOINED', room: room.code, token: seat.token, you: id });
+  broadcast(room);
+};
+
+const leaveSeat = (socket: WebSocket, left: boolean) => {
+  const entry = seatOf.get(socket);
+  if (!entry) return;
+  seatOf.delete(socket);
+  const { room, id } = entry;
+  const seat = room.seats[id]!;
+  seat.socket = null;
+  seat.left = seat.left || left;
+  if (Object.values(room.seats).every(s => !s?.socket)) room.idleSince = Date.now();
+  broadcast(room);
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  const error = (text: string, code?: ActionErrorCode) =>
+    send(socket, { type: 'ERROR', message: text, ...(code ? { code } : {}) });
+  const entry = seatOf.get(socket);
+
+  switch (message.type) {
+    case 'CREATE_ROOM': {
+      let options: OnlineGameOptions;
+      try {
+        options = parseOptions(message.options);
+      } catch (err) {
+        return error((err as Error).message);
+      }
+      if (entry) leaveSeat(socket, true);
+      const room: Room = { code: newRoomCode(), options, state: newGame(options), seats: {}, idleSince: null };
+      room.seats.P1 = { token: randomBytes(16).toString('hex'), socket: null, left: false };
+      rooms.set(room.code, room);
+      return takeSeat(socket, room, 'P1', room.seats.P1);
+    }
+
+    case 'JOIN_ROOM': {
+      const room = rooms.get(String(message.room).toUpperCase());
+      if (!room) return error(`No room with code ${message.room}.`);
+      if (room.seats.P2) return error(`Room ${room.code} is full.`);
+      if (entry) leaveSeat(socket, true);
+      room.seats.P2 = { token: randomBytes(16).toString('hex'), socket: null, left: false };
+      return takeSeat(socket, room, 'P2', room.seats.P2);
+    }
+
+    case 'RESUME': {
+      const room = rooms.get(String(message.room).toUpperCase());
+      const id = (['P1', 'P2'] as PlayerId[]).find(p => room?.seats[p]?.token === message.token);
+      if (!room || !id || room.seats[id]!.left) return error('That seat is no longer available.');
+      return takeSeat(socket, room, id, room.seats[id]!);
+    }
+
+    case 'ACTION': {
+      if (!entry) return error('Join a room first.');
+      const { room, id } = entry;
+      if (!room.seats.P2) return error('Waiting for an opponent to join.');
+      // The seat decides who is moving, whatever the message claims
+      const action = { ...message.action, playerId: id } as GameAction;
+      if (!PLAYABLE.includes(action.type)) return error('Unknown action.');
+      const invalid = validateAction(room.state, action);
+      if (invalid) return error(invalid.message, invalid.code);
+      room.state = reduce(room.state, action);
+      return broadcast(room);
+    }
+
+    case 'REMATCH': {
+      if (!entry) return error('Join a room first.');
+      if (!entry.room.state.winner) return error('The game is still running.');
+      entry.room.state = newGame(entry.room.options);
+      return broadcast(entry.room);
+    }
+
+    case 'LEAVE':
+      return leaveSeat(socket, true);
+
+    default:
+      return error('Unknown message.');
+  }
+};
+
+const server = new WebSocketServer({ port: PORT, host: HOST });
+
+server.on('connection', socket => {
+  socket.on('message', raw => {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return send(socket, { type: 'ERROR', message: 'Message is not valid JSON.' });
+    }
+    if (!isObject(message) || typeof message.type !== 'string') {
+      return send(socket, { type: 'ERROR', message: 'Message must be an object with a type.' });
+    }
+    // A malformed message fails on its own socket, never the whole relay
+    try {
+      handleMessage(socket, message as unknown as ClientMessage);
+    } catch (err) {
+      console.error('Failed to handle message:', err);
+      send(socket, { type: 'ERROR', message: 'Message could not be handled.' });
+    }
+  });
+  socket.on('close', () => leaveSeat(socket, false));
+});
+
+// Drop rooms that have been empty for a while
+setInterval(() => {
+  const now = Date.now();
+  rooms.forEach((room, code) => {
+    if (room.idleSince !== null && now - room.idleSince > ROOM_TTL_MS) rooms.delete(code);
+  });
+}, 60 * 1000).unref();
+
+server.on('listening', () => console.log(`Logic Lock relay listening on ws://${HOST}:${PORT}`));
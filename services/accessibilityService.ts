@@ -0,0 +1,46 @@
+import { BoardNode, GameAction, GameState } from '../types';
+import { describeAction } from './gameEngine';
+
+// Text for screen readers: labels for the board's slots and inputs, and the
+// announcement read out after each move.
+
+const signal = (value: 0 | 1 | null): string => (value === null ? 'no signal' : `${value}`);
+
+export const slotLabel = (node: BoardNode, value: 0 | 1 | null = node.value): string =>
+  node.gate === null
+    ? `Slot ${node.id}, empty`
+    : `Slot ${node.id}, ${node.gate} gate${node.locked ? ', locked' : ''}, output ${signal(value)}`;
+
+export const inputLabel = (index: number, value: 0 | 1, flipped: boolean): string =>
+  `Input ${index}, ${value}${flipped ? ', flipped' : ''}`;
+
+// An opponent's hand can be hidden from this screen, so a placed gate is
+// named from the board instead
+const describeMove = (before: GameState, after: GameState, action: GameAction): string => {
+  switch (action.type) {
+    case 'PLACE':
+      return `Placed ${after.board[action.slotId].gate} at slot ${action.slotId}`;
+    case 'OVERWRITE':
+      return `Overwrote ${before.board[action.slotId].gate} at slot ${action.slotId} with ${after.board[action.slotId].gate}`;
+    default:
+      return describeAction(before, action);
+  }
+};
+
+// The move that led from `before` to `after`, the slots whose output changed
+// and the root output, e.g. "Player 1: Placed AND at slot 3. Slot 3 is now 1.
+// Root output: no signal. Player 2 to move."
+export const announceMove = (before: GameState, after: GameState): string => {
+  const parts: string[] = [];
+  const move = after.moves[after.moves.length - 1];
+  if (move) parts.push(`${after.players[move.action.playerId].name}: ${describeMove(before, after, move.action)}.`);
+
+  const changed = after.board.filter((node, i) => node.id !== 0 && node.value !== before.board[i]?.value);
+  if (changed.length > 0) parts.push(`${changed.map(n => `Slot ${n.id} is now ${signal(n.value)}`).join(', ')}.`);
+  parts.push(`Root output: ${signal(after.board[0].value)}.`);
+
+  if (after.winner === 'DRAW') parts.push('The game is a draw.');
+  else if (after.winner) parts.push(`${after.players[after.winner].name} wins.`);
+  else parts.push(`${after.players[after.currentPlayer].name} to move.`);
+  return parts.join(' ');
+};
@@ -0,0 +1,36 @@
+import { ActionCardType, Card, GateType } from '../types';
+
+// Action cards share the deck with the gates but are never placed. Each one
+// is played as a whole turn; the rules live in the game engine next to
+// PLACE and DISCARD, this module only says what the cards are.
+
+const GATE_SET = new Set<string>(Object.values(GateType));
+
+export const ACTION_CARD_TYPES = Object.values(ActionCardType);
+
+// Every card a deck can hold, gates first
+export const CARD_TYPES: Card[] = [...Object.values(GateType), ...ACTION_CARD_TYPES];
+
+export const isGateCard = (card: Card): card is GateType => GATE_SET.has(card);
+
+export const isActionCard = (card: Card): card is ActionCardType => !GATE_SET.has(card);
+
+// Shown on the card and in its targeting hint
+export const ACTION_CARD_RULES: Record<ActionCardType, { summary: string; hint: string }> = {
+  [ActionCardType.OVERWRITE]: {
+    summary: 'Replace an unlocked gate',
+    hint: 'Pick a gate from your hand, then the unlocked gate it replaces.',
+  },
+  [ActionCardType.LOCK]: {
+    summary: 'Protect a placed gate',
+    hint: 'Pick a placed gate to lock. Locked gates can never be overwritten.',
+  },
+  [ActionCardType.FLIP]: {
+    summary: 'Invert a fixed input',
+    hint: 'Pick an input to invert. Each input can only be flipped once per game.',
+  },
+  [ActionCardType.PEEK]: {
+    summary: "See your opponent's hand",
+    hint: "Play it to look at your opponent's hand as it is right now.",
+  },
+};
@@ -0,0 +1,104 @@
+import { ActionCardType, BoardNode, GameState, GateType, PlayerId } from '../types';
+import { evaluateGate, fitsSlot, topologicalOrder, GATE_ARITY } from './logicService';
+import { isDailySeed } from './randomService';
+import { isGateCard } from './actionCardService';
+
+// Static move analysis for practice games and replays.
+//
+// Works out which values each node can still take if any gate may go into
+// the open slots. A placement "forces" the result when the root can only end
+// up at one value afterwards, whatever gets played later. Where a signal fans
+// out its copies are treated as independent, so the ranges can be too wide
+// but never too narrow: a forced result is always really forced. If the deck
+// holds OVERWRITE or FLIP cards, unlocked gates and unflipped inputs count as
+// open too.
+
+export type PlacementOutcome = 'WIN' | 'LOSS' | 'OPEN';
+
+// Value sets as bitmasks: bit 0 set = can be 0, bit 1 set = can be 1
+const CAN_BE_0 = 1;
+const CAN_BE_1 = 2;
+const valuesOf = (mask: number): (0 | 1)[] => [0, 1].filter(v => mask & (v === 0 ? CAN_BE_0 : CAN_BE_1)) as (0 | 1)[];
+
+const ALL_GATES = Object.values(GateType);
+
+// Analysis would give the game away against an AI, in puzzles and in the
+// shared daily circuit, so it is limited to hot-seat practice games.
+export const isAnalysisAvailable = (state: GameState): boolean =>
+  !state.isAI && !state.puzzle && !isDailySeed(state.seed);
+
+const inDeck = (state: GameState, card: ActionCardType): boolean => state.deck.composition[card] > 0;
+
+// Can a gate be placed here this turn?
+const isPlaceable = (state: GameState, node: BoardNode): boolean =>
+  node.gate === null || (state.puzzle !== null && !node.locked);
+
+// A slot is open if a gate can still go into it, by placing or overwriting
+const isOpen = (state: GameState, node: BoardNode): boolean =>
+  isPlaceable(state, node) || (inDeck(state, ActionCardType.OVERWRITE) && !node.locked);
+
+const inputMask = (state: GameState, index: number): number =>
+  inDeck(state, ActionCardType.FLIP) && !state.flippedInputs.includes(index)
+    ? CAN_BE_0 | CAN_BE_1
+    : state.inputs[index] === 1 ? CAN_BE_1 : CAN_BE_0;
+
+// Every combination of values a list of sources can take together
+const combinations = (masks: number[]): (0 | 1)[][] =>
+  masks.reduce<(0 | 1)[][]>(
+    (rows, mask) => rows.flatMap(row => valuesOf(mask).map(v => [...row, v])),
+    [[]]
+  );
+
+const rootMask = (state: GameState, board: BoardNode[]): number => {
+  const masks: number[] = new Array(board.length);
+  topologicalOrder(board).forEach(i => {
+    const node = board[i];
+    const gates = isOpen(state, node) ? ALL_GATES.filter(g => fitsSlot(g, node)) : [node.gate!];
+    const sourceMasks = node.sources.map(source =>
+      source.kind === 'INPUT' ? inputMask(state, source.index) : masks[source.index]
+    );
+
+    let mask = 0;
+    gates.forEach(gate => {
+      combinations(sourceMasks.slice(0, GATE_ARITY[gate])).forEach(values => {
+        mask |= evaluateGate(gate, ...values) === 1 ? CAN_BE_1 : CAN_BE_0;
+      });
+    });
+    masks[i] = mask;
+  });
+  return masks[0];
+};
+
+// Values the root can still end up at, given the gates already placed
+export const getRootRange = (state: GameState): (0 | 1)[] => valuesOf(rootMask(state, state.board));
+
+// For each card in the player's hand, the outcome of playing it into each
+// empty slot. Action cards get no outcomes.
+export const analyzePlacements = (state: GameState, playerId: PlayerId): Record<number, PlacementOutcome>[] => {
+  const target = state.players[playerId].targetValue;
+  return state.players[playerId].hand.map(gate => {
+    const outcomes: Record<number, PlacementOutcome> = {};
+    if (!isGateCard(gate)) return outcomes;
+    state.board.forEach(node => {
+      if (!isPlaceable(state, node) || !fitsSlot(gate, node)) return;
+      // The placed slot is filled for good unless an OVERWRITE could still replace it
+      const board = state.board.map(n => (n.id === node.id ? { ...n, gate, locked: !inDeck(state, ActionCardType.OVERWRITE) } : n));
+      const range = valuesOf(rootMask(state, board));
+      outcomes[node.id] = range.length > 1 ? 'OPEN' : range[0] === target ? 'WIN' : 'LOSS';
+    });
+    return outcomes;
+  });
+};
+
+// The best outcome any card in hand gives for each slot
+export const bestOutcomes = (perCard: Record<number, PlacementOutcome>[]): Record<number, PlacementOutcome> => {
+  const rank: Record<PlacementOutcome, number> = { LOSS: 0, OPEN: 1, WIN: 2 };
+  const best: Record<number, PlacementOutcome> = {};
+  perCard.forEach(outcomes => {
+    Object.entries(outcomes).forEach(([slot, outcome]) => {
+      const id = Number(slot);
+      if (!best[id] || rank[outcome] > rank[best[id]]) best[id] = outcome;
+    });
+  });
+  return best;
+};
@@ -0,0 +1,216 @@
+import { AudioSettings, BoardNode, GameAction, GameState, GateType } from '../types';
+import { getSlotLevels } from './logicService';
+import { isGateCard } from './actionCardService';
+import { isObject } from './jsonService';
+
+// Sound effects synthesized with the Web Audio API, so there is nothing to
+// download. Browsers keep audio suspended until the page is interacted with;
+// unlockAudio is called on every pointer or key press and starts it on the
+// first one. Without Web Audio every call here quietly does nothing.
+
+// Older Safari only has the prefixed constructor
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+export type SoundCue =
+  | 'select' | 'place' | 'discard' | 'timeout'
+  | 'overwrite' | 'lock' | 'flip' | 'peek'
+  | 'win' | 'loss' | 'draw';
+
+const AUDIO_KEY = 'logic-lock:audio-settings';
+
+export const DEFAULT_AUDIO: AudioSettings = { master: 0.8, sfx: 0.7, muted: false };
+
+const level = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(AUDIO_KEY) ?? 'null');
+    if (isObject(stored)) {
+      return {
+        master: level(stored.master, DEFAULT_AUDIO.master),
+        sfx: level(stored.sfx, DEFAULT_AUDIO.sfx),
+        muted: stored.muted === true,
+      };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_AUDIO;
+};
+
+let settings = loadAudioSettings();
+let context: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+let sfxGain: GainNode | null = null;
+
+const applyGains = () => {
+  if (!context || !masterGain || !sfxGain) return;
+  masterGain.gain.setValueAtTime(settings.muted ? 0 : settings.master, context.currentTime);
+  sfxGain.gain.setValueAtTime(settings.sfx, context.currentTime);
+};
+
+export const applyAudioSettings = (next: AudioSettings) => {
+  settings = next;
+  applyGains();
+  try {
+    localStorage.setItem(AUDIO_KEY, JSON.stringify(next));
+  } catch {
+    // Storage disabled; the levels last for this session only
+  }
+};
+
+// Create (or wake) the context from inside a user gesture
+export const unlockAudio = () => {
+  try {
+    if (!context) {
+      const Context = typeof window === 'undefined' ? undefined : window.AudioContext ?? window.webkitAudioContext;
+      if (!Context) return;
+      context = new Context();
+      masterGain = context.createGain();
+      sfxGain = context.createGain();
+      sfxGain.connect(masterGain);
+      masterGain.connect(context.destination);
+      applyGains();
+    }
+    if (context.state === 'running') return;
+    context.resume().catch(() => {});
+    // iOS only unlocks once something has played inside the gesture
+    const silence = context.createBufferSource();
+    silence.buffer = context.createBuffer(1, 1, 22050);
+    silence.connect(context.destination);
+    silence.start();
+  } catch {
+    // No usable audio output; stay silent
+  }
+};
+
+// ---------------- Synthesis ----------------
+
+interface Tone {
+  freq: number;
+  endFreq?: number; // Glide to this by the end
+  wave?: OscillatorType;
+  start?: number; // Seconds after now
+  duration: number; // Seconds
+  volume?: number;
+}
+
+const playTones = (tones: Tone[]) => {
+  const ctx = context;
+  if (!ctx || !sfxGain || ctx.state !== 'running' || settings.muted) return;
+  const now = ctx.currentTime;
+  try {
+    tones.forEach(({ freq, endFreq, wave = 'sine', start = 0, duration, volume = 0.25 }) => {
+      const t = now + start;
+      const osc = ctx.createOscillator();
+      const envelope = ctx.createGain();
+      osc.type = wave;
+      osc.frequency.setValueAtTime(freq, t);
+      if (endFreq) osc.frequency.exponentialRampToValueAtTime(endFreq, t + duration);
+      // Short attack and an exponential tail, so tones don't click
+      envelope.gain.setValueAtTime(0.0001, t);
+      envelope.gain.exponentialRampToValueAtTime(volume, t + 0.01);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+      osc.connect(envelope).connect(sfxGain!);
+      osc.start(t);
+      osc.stop(t + duration + 0.02);
+    });
+  } catch {
+    // A node could not be created; skip this sound
+  }
+};
+
+// Each gate's voice. The gate families share a waveform (AND square, OR
+// triangle, XOR sawtooth) and differ in pitch; inverting gates bend down
+// instead of up, and three-input gates add a fifth above.
+const GATE_VOICES: Record<GateType, { freq: number; wave: OscillatorType }> = {
+  [GateType.AND]: { freq: 392, wave: 'square' },
+  [GateType.NAND]: { freq: 370, wave: 'square' },
+  [GateType.AND3]: { freq: 415, wave: 'square' },
+  [GateType.OR]: { freq: 440, wave: 'triangle' },
+  [GateType.NOR]: { freq: 415, wave: 'triangle' },
+  [GateType.OR3]: { freq: 466, wave: 'triangle' },
+  [GateType.XOR]: { freq: 494, wave: 'sawtooth' },
+  [GateType.XNOR]: { freq: 466, wave: 'sawtooth' },
+  [GateType.NOT]: { freq: 330, wave: 'sine' },
+  [GateType.BUFFER]: { freq: 349, wave: 'sine' },
+  [GateType.MAJ3]: { freq: 523, wave: 'triangle' },
+};
+
+const INVERTING = new Set([GateType.NAND, GateType.NOR, GateType.XNOR, GateType.NOT]);
+const THREE_INPUT = new Set([GateType.AND3, GateType.OR3, GateType.MAJ3]);
+
+const gateTones = (gate: GateType, start: number): Tone[] => {
+  const { freq, wave } = GATE_VOICES[gate];
+  const endFreq = INVERTING.has(gate) ? freq * 0.75 : freq * 1.25;
+  const tones: Tone[] = [{ freq, endFreq, wave, start, duration: 0.14, volume: 0.15 }];
+  if (THREE_INPUT.has(gate)) tones.push({ freq: freq * 1.5, endFreq: endFreq * 1.5, wave, start: start + 0.04, duration: 0.12, volume: 0.1 });
+  return tones;
+};
+
+const CUES: Record<SoundCue, Tone[]> = {
+  select: [{ freq: 880, duration: 0.05, volume: 0.12 }],
+  place: [{ freq: 440, endFreq: 660, wave: 'triangle', duration: 0.12 }],
+  discard: [{ freq: 300, endFreq: 120, wave: 'sawtooth', duration: 0.25, volume: 0.1 }],
+  timeout: [0, 0.15, 0.3].map(start => ({ freq: 220, wave: 'square' as const, start, duration: 0.1, volume: 0.12 })),
+  overwrite: [
+    { freq: 600, endFreq: 300, wave: 'square', duration: 0.1, volume: 0.12 },
+    { freq: 300, endFreq: 600, wave: 'square', start: 0.1, duration: 0.1, volume: 0.12 },
+  ],
+  lock: [
+    { freq: 180, wave: 'square', duration: 0.06, volume: 0.15 },
+    { freq: 120, wave: 'square', start: 0.07, duration: 0.16, volume: 0.15 },
+  ],
+  flip: [660, 880, 660, 880].map((freq, i) => ({ freq, wave: 'triangle' as const, start: i * 0.05, duration: 0.05, volume: 0.15 })),
+  peek: [{ freq: 1200, endFreq: 1600, duration: 0.3, volume: 0.08 }],
+  // Major arpeggio up for a win, minor steps down for a loss
+  win: [523, 659, 784, 1047].map((freq, i) => ({ freq, wave: 'triangle' as const, start: i * 0.1, duration: i === 3 ? 0.6 : 0.15 })),
+  loss: [392, 311, 262, 196].map((freq, i) => ({ freq, wave: 'sawtooth' as const, start: i * 0.16, duration: i === 3 ? 0.7 : 0.2, volume: 0.12 })),
+  draw: [0, 0.18].map(start => ({ freq: 440, wave: 'triangle' as const, start, duration: 0.25, volume: 0.2 })),
+};
+
+const ACTION_CUES: Record<GameAction['type'], SoundCue> = {
+  PLACE: 'place',
+  DISCARD: 'discard',
+  TIMEOUT: 'timeout',
+  OVERWRITE: 'overwrite',
+  LOCK: 'lock',
+  FLIP: 'flip',
+  PEEK: 'peek',
+};
+
+// A placing cue with a gate is voiced by that gate; any other cue with one
+// is followed by it (OVERWRITE)
+export const playCue = (cue: SoundCue, gate?: GateType | null) => {
+  if (cue === 'place' && gate) playTones(gateTones(gate, 0));
+  else playTones(gate ? [...CUES[cue], ...gateTones(gate, 0.2)] : CUES[cue]);
+};
+
+// The cue for an action about to be applied to `state`
+export const playAction = (state: GameState, action: GameAction) => {
+  const hand = state.players[action.playerId].hand;
+  const card = action.type === 'PLACE' ? hand[action.handIndex] : action.type === 'OVERWRITE' ? hand[action.gateIndex] : undefined;
+  playCue(ACTION_CUES[action.type], card && isGateCard(card) ? card : null);
+};
+
+// Signals rising through the circuit after a move: one blip per level where
+// a slot gained or changed its value, from the deepest up to the root, each
+// higher than the last. A level that now carries a 1 sounds brighter.
+export const playPropagation = (before: BoardNode[], after: BoardNode[]) => {
+  if (before.length !== after.length) return;
+  const levels = getSlotLevels(after);
+  const changed = after.filter((node, i) => node.value !== null && node.value !== before[i].value);
+  if (changed.length === 0) return;
+  const depth = Math.max(...levels);
+  const touched = [...new Set(changed.map(node => levels[node.id]))].sort((a, b) => b - a);
+  playTones(touched.map((lvl, step) => {
+    const freq = 300 * 1.25 ** (depth - lvl);
+    const high = changed.some(node => levels[node.id] === lvl && node.value === 1);
+    return { freq, endFreq: freq * 1.2, wave: high ? 'triangle' : 'sine', start: 0.15 + step * 0.08, duration: 0.1, volume: 0.12 };
+  }));
+};
@@ -0,0 +1,183 @@
+import { BoardNode, GateType, SignalSource } from '../types';
+import { GATE_ARITY, topologicalOrder } from './logicService';
+import { arrangeRows } from './layoutService';
+import { buildExpression, formatExpression } from './expressionService';
+
+// Finished circuits for use outside the game: a Verilog module, a JSON
+// netlist, the root's boolean expression and an SVG schematic. Every
+// exporter is a pure function of the board and inputs, so the same circuit
+// always gives byte-identical output. Empty slots (a game can end before the
+// board is full) are exported as unknown values.
+
+export type ExportFormat = 'VERILOG' | 'NETLIST' | 'EXPRESSION' | 'SVG';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  VERILOG: { label: 'VERILOG', extension: 'v', mimeType: 'text/x-verilog' },
+  NETLIST: { label: 'NETLIST', extension: 'json', mimeType: 'application/json' },
+  EXPRESSION: { label: 'EXPRESSION', extension: 'txt', mimeType: 'text/plain' },
+  SVG: { label: 'SCHEMATIC', extension: 'svg', mimeType: 'image/svg+xml' },
+};
+
+// Sources a slot actually reads: the first ones its gate needs, or all of
+// them while it is empty
+const readSources = (node: BoardNode): SignalSource[] =>
+  node.gate ? node.sources.slice(0, GATE_ARITY[node.gate]) : node.sources;
+
+// ---------------- Verilog ----------------
+
+const verilogGate = (gate: GateType, [a, b, c]: string[]): string => {
+  switch (gate) {
+    case GateType.AND: return `${a} & ${b}`;
+    case GateType.OR: return `${a} | ${b}`;
+    case GateType.XOR: return `${a} ^ ${b}`;
+    case GateType.NAND: return `~(${a} & ${b})`;
+    case GateType.NOR: return `~(${a} | ${b})`;
+    case GateType.XNOR: return `~(${a} ^ ${b})`;
+    case GateType.NOT: return `~${a}`;
+    case GateType.BUFFER: return a;
+    case GateType.AND3: return `${a} & ${b} & ${c}`;
+    case GateType.OR3: return `${a} | ${b} | ${c}`;
+    case GateType.MAJ3: return `(${a} & ${b}) | (${a} & ${c}) | (${b} & ${c})`;
+  }
+};
+
+export const toVerilog = (board: BoardNode[], inputs: (0 | 1)[], moduleName = 'logic_lock'): string => {
+  const signal = (source: SignalSource) => (source.kind === 'INPUT' ? `in[${source.index}]` : `s${source.index}`);
+  const assigns = topologicalOrder(board).map(id => {
+    const node = board[id];
+    return node.gate
+      ? `  assign s${id} = ${verilogGate(node.gate, readSources(node).map(signal))}; // ${node.gate}`
+      : `  assign s${id} = 1'bx; // Empty slot`;
+  });
+  const bits = [...inputs].reverse().join('');
+
+  return [
+    `// Logic Lock circuit: ${board.length} slots, ${inputs.length} inputs`,
+    `// Inputs dealt in this game: in = ${inputs.length}'b${bits}`,
+    `module ${moduleName} (`,
+    `  input  wire [${inputs.length - 1}:0] in,`,
+    `  output wire out`,
+    `);`,
+    `  wire ${board.map(n => `s${n.id}`).join(', ')};`,
+    ``,
+    ...assigns,
+    ``,
+    `  assign out = s0;`,
+    `endmodule`,
+    ``,
+  ].join('\n');
+};
+
+// ---------------- Netlist ----------------
+
+export const NETLIST_FORMAT = 'logic-lock-netlist';
+export const NETLIST_VERSION = 1;
+
+export const toNetlist = (board: BoardNode[], inputs: (0 | 1)[]): string => {
+  const id = (source: SignalSource) => (source.kind === 'INPUT' ? `in${source.index}` : `s${source.index}`);
+  const netlist = {
+    format: NETLIST_FORMAT,
+    version: NETLIST_VERSION,
+    inputs: inputs.map((value, i) => ({ id: `in${i}`, value })),
+    gates: board.map(node => ({
+      id: `s${node.id}`,
+      type: node.gate, // null for an empty slot
+      inputs: readSources(node).map(id),
+      value: node.value,
+    })),
+    output: 's0',
+  };
+  return `${JSON.stringify(netlist, null, 2)}\n`;
+};
+
+// ---------------- Expression ----------------
+
+export const toExpression = (board: BoardNode[]): string => `out = ${formatExpression(buildExpression(board))}\n`;
+
+// ---------------- SVG schematic ----------------
+
+const SVG_SLOT_COLUMN = 120; // px per slot in the widest row
+const SVG_INPUT_COLUMN = 50; // px per input
+const SVG_ROW_HEIGHT = 120;
+const SVG_MARGIN = 40;
+const GATE_WIDTH = 72;
+const GATE_HEIGHT = 44;
+const VALUE_COLORS = { 1: '#16a34a', 0: '#dc2626', null: '#9ca3af' };
+
+const valueColor = (value: 0 | 1 | null) => VALUE_COLORS[value ?? 'null'];
+
+export const toSvg = (board: BoardNode[], inputs: (0 | 1)[]): string => {
+  const rows = arrangeRows(board);
+  const width = 2 * SVG_MARGIN + Math.max(Math.max(...rows.map(r => r.length)) * SVG_SLOT_COLUMN, inputs.length * SVG_INPUT_COLUMN);
+  const inputY = 2 * SVG_MARGIN + rows.length * SVG_ROW_HEIGHT;
+  const height = inputY + SVG_MARGIN;
+  const inner = width - 2 * SVG_MARGIN;
+
+  const slotAt: { x: number; y: number }[] = [];
+  rows.forEach((row, level) => row.forEach((id, position) => {
+    slotAt[id] = {
+      x: Math.round(SVG_MARGIN + ((position + 0.5) / row.length) * inner),
+      y: 2 * SVG_MARGIN + level * SVG_ROW_HEIGHT,
+    };
+  }));
+  const inputX = (i: number) => Math.round(SVG_MARGIN + ((i + 0.5) / inputs.length) * inner);
+
+  const wires: string[] = [];
+  board.forEach(node => {
+    const { x, y } = slotAt[node.id];
+    const count = node.sources.length;
+    node.sources.forEach((source, side) => {
+      const landX = count === 1 ? x : Math.round(x - GATE_WIDTH / 3 + ((2 * GATE_WIDTH) / 3) * side / (count - 1));
+      const landY = y + GATE_HEIGHT / 2;
+      const [fromX, fromY, value] = source.kind === 'INPUT'
+        ? [inputX(source.index), inputY - 12, inputs[source.index]]
+        : [slotAt[source.index].x, slotAt[source.index].y - GATE_HEIGHT / 2, board[source.index].value];
+      wires.push(`  <line x1="${fromX}" y1="${fromY}" x2="${landX}" y2="${landY}" stroke="${valueColor(value)}" stroke-width="2"/>`);
+    });
+  });
+  const root = slotAt[0];
+  wires.push(`  <line x1="${root.x}" y1="${root.y - GATE_HEIGHT / 2}" x2="${root.x}" y2="${SVG_MARGIN}" stroke="${valueColor(board[0].value)}" stroke-width="2"/>`);
+
+  const gates = board.map(node => {
+    const { x, y } = slotAt[node.id];
+    return [
+      `  <g>`,
+      `    <rect x="${x - GATE_WIDTH / 2}" y="${y - GATE_HEIGHT / 2}" width="${GATE_WIDTH}" height="${GATE_HEIGHT}" rx="6" fill="#ffffff" stroke="#111827" stroke-width="2"${node.gate ? '' : ' stroke-dasharray="4 3"'}/>`,
+      `    <text x="${x}" y="${y + 2}" text-anchor="middle" font-size="14" font-weight="bold">${node.gate ?? '?'}</text>`,
+      `    <text x="${x}" y="${y + 16}" text-anchor="middle" font-size="10" fill="#6b7280">S${node.id}</text>`,
+      `    <circle cx="${x + GATE_WIDTH / 2}" cy="${y - GATE_HEIGHT / 2}" r="8" fill="${valueColor(node.value)}"/>`,
+      `    <text x="${x + GATE_WIDTH / 2}" y="${y - GATE_HEIGHT / 2 + 4}" text-anchor="middle" font-size="10" fill="#ffffff">${node.value ?? '-'}</text>`,
+      `  </g>`,
+    ].join('\n');
+  });
+
+  const inputMarks = inputs.map((value, i) => [
+    `  <circle cx="${inputX(i)}" cy="${inputY}" r="12" fill="${valueColor(value)}"/>`,
+    `  <text x="${inputX(i)}" y="${inputY + 4}" text-anchor="middle" font-size="12" fill="#ffffff">${value}</text>`,
+    `  <text x="${inputX(i)}" y="${inputY + 26}" text-anchor="middle" font-size="10" fill="#6b7280">IN.${i}</text>`,
+  ].join('\n'));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="monospace">`,
+    `  <title>Logic Lock circuit</title>`,
+    `  <rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `  <text x="${root.x}" y="${SVG_MARGIN - 8}" text-anchor="middle" font-size="12" font-weight="bold">OUT = ${board[0].value ?? '?'}</text>`,
+    ...wires,
+    ...gates,
+    ...inputMarks,
+    `</svg>`,
+    ``,
+  ].join('\n');
+};
+
+export const exportCircuit = (format: ExportFormat, board: BoardNode[], inputs: (0 | 1)[]): string => {
+  switch (format) {
+    case 'VERILOG': return toVerilog(board, inputs);
+    case 'NETLIST': return toNetlist(board, inputs);
+    case 'EXPRESSION': return toExpression(board);
+    case 'SVG': return toSvg(board, inputs);
+  }
+};
+
+export const exportFileName = (format: ExportFormat, seed: string): string =>
+  `logic-lock-${seed}.${EXPORT_FORMATS[format].extension}`;
@@ -0,0 +1,54 @@
+import { ClockState, PlayerId, TimeControl, TimeoutRule } from '../types';
+import { isCount, isObject, isOneOf } from './jsonService';
+
+// Chess clocks.
+//
+// The engine never reads the time itself: every action in a timed game
+// carries the milliseconds its mover spent on it, and the clock in the game
+// state is charged from that. So undo, records and replays see exactly the
+// clocks the players saw.
+
+export const TIMEOUT_RULES: TimeoutRule[] = ['AUTO_DISCARD', 'RANDOM_PLACE', 'LOSS'];
+
+export const TIME_CONTROL_PRESETS: Record<string, Omit<TimeControl, 'timeoutRule'>> = {
+  BLITZ: { initialMs: 60_000, incrementMs: 5_000, perMove: false },
+  RAPID: { initialMs: 300_000, incrementMs: 10_000, perMove: false },
+  QUICKFIRE: { initialMs: 10_000, incrementMs: 0, perMove: true },
+  STEADY: { initialMs: 30_000, incrementMs: 0, perMove: true },
+};
+
+export const createClock = (control: TimeControl): ClockState => ({
+  control,
+  remainingMs: { P1: control.initialMs, P2: control.initialMs },
+});
+
+// Charge a move's time to its mover and add the increment. Per-move clocks
+// start every move afresh.
+export const chargeClock = (clock: ClockState, id: PlayerId, elapsedMs: number): ClockState => {
+  const { initialMs, incrementMs, perMove } = clock.control;
+  const left = perMove ? initialMs : Math.max(0, clock.remainingMs[id] - Math.max(0, elapsedMs || 0)) + incrementMs;
+  return { ...clock, remainingMs: { ...clock.remainingMs, [id]: left } };
+};
+
+// 4:05, or 7.3 in the last ten seconds
+export const formatClock = (ms: number): string => {
+  if (ms < 10_000) return (Math.max(0, ms) / 1000).toFixed(1);
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const describeTimeControl = (control: Omit<TimeControl, 'timeoutRule'>): string =>
+  control.perMove
+    ? `${control.initialMs / 1000} S PER MOVE`
+    : `${formatClock(control.initialMs)} + ${control.incrementMs / 1000} S`;
+
+// Check a time control from a match record or save
+export const parseTimeControl = (data: unknown): TimeControl => {
+  if (!isObject(data)) throw new Error('Time control must be an object.');
+  const { initialMs, incrementMs, perMove, timeoutRule } = data;
+  if (!isCount(initialMs) || initialMs === 0) throw new Error('Time control needs a positive initialMs.');
+  if (!isCount(incrementMs)) throw new Error('Time control increment must be 0 or more.');
+  if (typeof perMove !== 'boolean') throw new Error('Time control perMove must be true or false.');
+  if (!isOneOf(TIMEOUT_RULES, timeoutRule)) throw new Error(`Time control has an unknown timeout rule ${JSON.stringify(timeoutRule)}.`);
+  return { initialMs, incrementMs, perMove, timeoutRule };
+};
@@ -0,0 +1,135 @@
+import { GameState, GameAction, ActionError, ActionCardType, AIMove, AIMoveFeedback, AIDeckView, PlayerId, GateType, SolverLevel } from '../types';
+import { validateAction, listLegalActions, getOpponent } from './gameEngine';
+import { countCards } from './deckService';
+import { requestSolverMove } from './solverService';
+import { getAIMove } from './llmService';
+
+// Turns Cortex's LLM answers into engine actions.
+//
+// An illegal answer is sent back to the model with the engine's error and
+// the full list of legal moves, a bounded number of times, before the local
+// solver takes over.
+
+export const MAX_CORTEX_RETRIES = 2;
+const FALLBACK_LEVEL: SolverLevel = 'MEDIUM';
+
+const AI_ACTION_TYPES: AIMove['actionType'][] = ['PLACE', 'DISCARD', 'OVERWRITE', 'LOCK', 'FLIP', 'PEEK'];
+
+// The LLM's vocabulary for an engine action
+export const toAIMove = (state: GameState, action: GameAction): AIMove => {
+  const hand = state.players[action.playerId].hand;
+  switch (action.type) {
+    case 'PLACE':
+      return { actionType: 'PLACE', slotId: action.slotId, gateType: hand[action.handIndex] as GateType };
+    case 'OVERWRITE':
+      return { actionType: 'OVERWRITE', slotId: action.slotId, gateType: hand[action.gateIndex] as GateType };
+    case 'LOCK':
+      return { actionType: 'LOCK', slotId: action.slotId };
+    case 'FLIP':
+      return { actionType: 'FLIP', inputIndex: action.inputIndex };
+    case 'PEEK':
+      return { actionType: 'PEEK' };
+    default:
+      return { actionType: 'DISCARD' };
+  }
+};
+
+// Map an AIMove onto a legal action, or explain why it can't be played
+export const resolveAIMove = (
+  state: GameState,
+  playerId: PlayerId,
+  move: AIMove
+): { action: GameAction } | { error: ActionError } => {
+  const malformed = (message: string) => ({ error: { code: 'MALFORMED_MOVE' as const, message } });
+  const checked = (action: GameAction) => {
+    const error = validateAction(state, action);
+    return error ? { error } : { action };
+  };
+
+  const type = move?.actionType;
+  if (type === 'DISCARD') return checked({ type: 'DISCARD', playerId });
+  if (!AI_ACTION_TYPES.includes(type)) {
+    return malformed(`actionType must be one of ${AI_ACTION_TYPES.map(t => `"${t}"`).join(', ')}.`);
+  }
+  if ((type === 'PLACE' || type === 'OVERWRITE' || type === 'LOCK') && !Number.isInteger(move.slotId)) {
+    return malformed(`${type} needs an integer slotId.`);
+  }
+  if (type === 'FLIP' && !Number.isInteger(move.inputIndex)) {
+    return malformed('FLIP needs an integer inputIndex.');
+  }
+
+  const hand = state.players[playerId].hand;
+  let gateIndex = -1;
+  if (type === 'PLACE' || type === 'OVERWRITE') {
+    if (!Object.values(GateType).includes(move.gateType as GateType)) {
+      return malformed(`${type} needs a gateType, got ${JSON.stringify(move.gateType)}.`);
+    }
+    gateIndex = hand.indexOf(move.gateType!);
+    if (gateIndex === -1) {
+      return { error: { code: 'CARD_NOT_IN_HAND', message: `${move.gateType} is not in your hand.` } };
+    }
+    if (type === 'PLACE') return checked({ type: 'PLACE', playerId, slotId: move.slotId!, handIndex: gateIndex });
+  }
+
+  // The rest are played with the action card of the same name
+  const handIndex = hand.indexOf(type as ActionCardType);
+  if (handIndex === -1) {
+    return { error: { code: 'CARD_NOT_IN_HAND', message: `You have no ${type} card.` } };
+  }
+  switch (type) {
+    case 'OVERWRITE':
+      return checked({ type, playerId, handIndex, slotId: move.slotId!, gateIndex });
+    case 'LOCK':
+      return checked({ type, playerId, handIndex, slotId: move.slotId! });
+    case 'FLIP':
+      return checked({ type, playerId, handIndex, inputIndex: move.inputIndex! });
+    default:
+      return checked({ type: 'PEEK', playerId, handIndex });
+  }
+};
+
+// The deck as seen from the mover's seat
+const deckView = (state: GameState, playerId: PlayerId): AIDeckView => {
+  const { deck } = state;
+  const opponentHand = state.players[getOpponent(playerId)].hand;
+  return {
+    drawPileSize: deck.drawPile.length,
+    opponentHandSize: opponentHand.length,
+    unseen: countCards([...deck.drawPile, ...opponentHand]),
+    discarded: countCards(deck.discardPile),
+    emptyRule: deck.emptyRule,
+  };
+};
+
+// Ask the LLM for a move, retrying with feedback on illegal answers.
+// A failed request (network, bad JSON) goes straight to the fallback.
+export const chooseCortexMove = async (state: GameState, playerId: PlayerId): Promise<GameAction> => {
+  const { board, inputs, flippedInputs } = state;
+  const hand = state.players[playerId].hand;
+  const deck = deckView(state, playerId);
+  const peek = state.peeks[playerId];
+  let feedback: AIMoveFeedback | undefined;
+
+  for (let attempt = 0; attempt <= MAX_CORTEX_RETRIES; attempt++) {
+    let move: AIMove;
+    try {
+      move = await getAIMove({ board, inputs, flippedInputs, hand, deck, peek, feedback });
+    } catch {
+      break;
+    }
+
+    const result = resolveAIMove(state, playerId, move);
+    if ('action' in result) return result.action;
+
+    console.warn(`Cortex move rejected (attempt ${attempt + 1}/${MAX_CORTEX_RETRIES + 1}): ${result.error.code} ${result.error.message}`, move);
+    feedback = {
+      rejected: move,
+      error: result.error,
+      legalMoves: listLegalActions(state, playerId).map(action => toAIMove(state, action)),
+    };
+  }
+
+  console.warn(`Cortex gave no legal move; the ${FALLBACK_LEVEL} solver plays instead.`);
+  // Like the prompt, the fallback sees the opponent's hand only as unseen cards
+  return requestSolverMove(state, playerId, FALLBACK_LEVEL, false);
+};
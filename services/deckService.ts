@@ -0,0 +1,133 @@
+import { ActionCardType, Card, DeckComposition, DeckEmptyRule, DeckState, GateType } from '../types';
+import { Rng } from './randomService';
+import { CARD_TYPES } from './actionCardService';
+
+// Finite deck of gates and action cards.
+//
+// The draw pile is shuffled once from the composition with the match's seeded
+// stream; the last element is the top card. Discarded hands go to the discard
+// pile, which is shuffled back in when the draw pile runs dry (RESHUFFLE) or
+// ends the match (END_GAME), depending on the rule chosen at game start.
+
+// Cards left out of a composition get no copies
+export const deckOf = (counts: Partial<DeckComposition>): DeckComposition =>
+  Object.fromEntries(CARD_TYPES.map(c => [c, counts[c] ?? 0])) as DeckComposition;
+
+export const STANDARD_DECK: DeckComposition = deckOf({
+  [GateType.AND]: 6,
+  [GateType.OR]: 6,
+  [GateType.XOR]: 4,
+  [GateType.NAND]: 3,
+  [GateType.NOR]: 3,
+});
+
+// EXTENDED deals every gate. Its 3-input gates only fit slots with three
+// sources, like those of the Shared Bus and Triad layouts; on other boards
+// they can only be discarded.
+export const DECK_PRESETS: Record<string, DeckComposition> = {
+  STANDARD: STANDARD_DECK,
+  BALANCED: deckOf({
+    [GateType.AND]: 5,
+    [GateType.OR]: 5,
+    [GateType.XOR]: 5,
+    [GateType.NAND]: 5,
+    [GateType.NOR]: 5,
+  }),
+  CHAOS: deckOf({
+    [GateType.AND]: 3,
+    [GateType.OR]: 3,
+    [GateType.XOR]: 8,
+    [GateType.NAND]: 4,
+    [GateType.NOR]: 4,
+  }),
+  EXTENDED: deckOf({
+    [GateType.AND]: 4,
+    [GateType.OR]: 4,
+    [GateType.XOR]: 3,
+    [GateType.NAND]: 3,
+    [GateType.NOR]: 3,
+    [GateType.XNOR]: 3,
+    [GateType.NOT]: 2,
+    [GateType.BUFFER]: 2,
+    [GateType.AND3]: 2,
+    [GateType.OR3]: 2,
+    [GateType.MAJ3]: 2,
+  }),
+  // Gates plus action cards; rarer cards change more
+  TACTICAL: deckOf({
+    [GateType.AND]: 5,
+    [GateType.OR]: 5,
+    [GateType.XOR]: 3,
+    [GateType.NAND]: 3,
+    [GateType.NOR]: 3,
+    [ActionCardType.OVERWRITE]: 2,
+    [ActionCardType.LOCK]: 2,
+    [ActionCardType.FLIP]: 1,
+    [ActionCardType.PEEK]: 2,
+  }),
+};
+
+export const DECK_EMPTY_RULES: DeckEmptyRule[] = ['RESHUFFLE', 'END_GAME'];
+
+export const deckSize = (composition: DeckComposition): number =>
+  Object.values(composition).reduce((sum, n) => sum + n, 0);
+
+export const countCards = (cards: Card[]): DeckComposition => {
+  const counts = deckOf({});
+  cards.forEach(c => counts[c]++);
+  return counts;
+};
+
+// Fisher-Yates with the given stream
+export const shuffle = <T>(items: T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Builds a shuffled deck with enough copies of the composition to fill
+// `minCards` (every slot on the board plus both opening hands).
+// The stored composition is the scaled one, i.e. the full deck.
+export const createDeck = (
+  composition: DeckComposition,
+  emptyRule: DeckEmptyRule,
+  minCards: number,
+  rng: Rng
+): DeckState => {
+  const copies = Math.max(1, Math.ceil(minCards / Math.max(1, deckSize(composition))));
+  const scaled = Object.fromEntries(
+    CARD_TYPES.map(c => [c, (composition[c] ?? 0) * copies])
+  ) as DeckComposition;
+  const cards: Card[] = [];
+  (Object.entries(scaled) as [Card, number][]).forEach(([card, count]) => {
+    for (let i = 0; i < count; i++) cards.push(card);
+  });
+  return { composition: scaled, emptyRule, drawPile: shuffle(cards, rng), discardPile: [] };
+};
+
+// Draw up to `count` cards from the top. Under RESHUFFLE the discard pile is
+// shuffled back in when needed; `exhausted` is set if a card was wanted but
+// none was left to draw.
+export const drawCards = (
+  deck: DeckState,
+  count: number,
+  rng: Rng
+): { cards: Card[]; deck: DeckState; exhausted: boolean } => {
+  let drawPile = [...deck.drawPile];
+  let discardPile = deck.discardPile;
+  const cards: Card[] = [];
+
+  while (cards.length < count) {
+    if (drawPile.length === 0) {
+      if (deck.emptyRule !== 'RESHUFFLE' || discardPile.length === 0) break;
+      drawPile = shuffle(discardPile, rng);
+      discardPile = [];
+    }
+    cards.push(drawPile.pop()!);
+  }
+
+  return { cards, deck: { ...deck, drawPile, discardPile }, exhausted: cards.length < count };
+};
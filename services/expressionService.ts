@@ -0,0 +1,189 @@
+import { BoardNode, GateType } from '../types';
+import { evaluateGate, GATE_ARITY } from './logicService';
+
+// The circuit as a boolean expression, for the teaching panel.
+//
+// The root is expanded over the inputs IN.0, IN.1, ... through the placed
+// gates. An empty slot becomes a free variable S<id> standing for whatever
+// its output will be, so nothing below it shows up yet.
+
+export type Expr =
+  | { kind: 'INPUT'; index: number }
+  | { kind: 'UNKNOWN'; slot: number }
+  | { kind: 'GATE'; slot: number; gate: GateType; args: Expr[] };
+
+export type Variable = { kind: 'INPUT'; index: number } | { kind: 'UNKNOWN'; slot: number };
+
+// One AND term of a sum of products; an empty term is the constant 1
+export type Product = { variable: Variable; negated: boolean }[];
+
+// Slots and inputs a sub-expression covers
+export interface Footprint {
+  slots: number[];
+  inputs: number[];
+}
+
+export interface TruthTable {
+  variables: Variable[]; // Column order; the first one is the most significant bit of the row index
+  rows: { values: (0 | 1)[]; result: 0 | 1 }[];
+}
+
+// Tables and simplification are skipped above this many variables
+export const MAX_TABLE_VARIABLES = 8;
+
+// How each gate is written: an infix operator over its sources, a named
+// function, or a single source, optionally negated as a whole
+export const GATE_NOTATION: Record<GateType, { join?: string; fn?: string; negate: boolean }> = {
+  [GateType.AND]: { join: ' ∧ ', negate: false },
+  [GateType.OR]: { join: ' ∨ ', negate: false },
+  [GateType.XOR]: { join: ' ⊕ ', negate: false },
+  [GateType.NAND]: { join: ' ∧ ', negate: true },
+  [GateType.NOR]: { join: ' ∨ ', negate: true },
+  [GateType.XNOR]: { join: ' ⊕ ', negate: true },
+  [GateType.NOT]: { negate: true },
+  [GateType.BUFFER]: { negate: false },
+  [GateType.AND3]: { join: ' ∧ ', negate: false },
+  [GateType.OR3]: { join: ' ∨ ', negate: false },
+  [GateType.MAJ3]: { fn: 'MAJ', negate: false },
+};
+
+export const buildExpression = (board: BoardNode[], slot = 0): Expr => {
+  const node = board[slot];
+  if (node.gate === null) return { kind: 'UNKNOWN', slot };
+  return {
+    kind: 'GATE',
+    slot,
+    gate: node.gate,
+    args: node.sources.slice(0, GATE_ARITY[node.gate]).map(source =>
+      source.kind === 'INPUT' ? { kind: 'INPUT', index: source.index } : buildExpression(board, source.index)
+    ),
+  };
+};
+
+export const variableName = (v: Variable): string => (v.kind === 'INPUT' ? `IN.${v.index}` : `S${v.slot}`);
+
+// Variables the expression reads, inputs first, each in index order
+export const expressionVariables = (expr: Expr): Variable[] => {
+  const inputs = new Set<number>();
+  const unknowns = new Set<number>();
+  const walk = (e: Expr) => {
+    if (e.kind === 'INPUT') inputs.add(e.index);
+    else if (e.kind === 'UNKNOWN') unknowns.add(e.slot);
+    else e.args.forEach(walk);
+  };
+  walk(expr);
+  return [
+    ...[...inputs].sort((a, b) => a - b).map(index => ({ kind: 'INPUT' as const, index })),
+    ...[...unknowns].sort((a, b) => a - b).map(slot => ({ kind: 'UNKNOWN' as const, slot })),
+  ];
+};
+
+export const expressionFootprint = (expr: Expr): Footprint => {
+  const slots: number[] = [];
+  const inputs: number[] = [];
+  const walk = (e: Expr) => {
+    if (e.kind === 'INPUT') inputs.push(e.index);
+    else {
+      slots.push(e.slot);
+      if (e.kind === 'GATE') e.args.forEach(walk);
+    }
+  };
+  walk(expr);
+  return { slots: [...new Set(slots)], inputs: [...new Set(inputs)] };
+};
+
+export const evaluateExpression = (expr: Expr, values: Record<string, 0 | 1>): 0 | 1 => {
+  if (expr.kind !== 'GATE') return values[variableName(expr)];
+  return evaluateGate(expr.gate, ...expr.args.map(arg => evaluateExpression(arg, values)));
+};
+
+// Written out in full, e.g. ¬(IN.0 ∧ IN.1) ∨ S2
+export const formatExpression = (expr: Expr, outer = true): string => {
+  if (expr.kind !== 'GATE') return variableName(expr);
+  const { join, fn, negate } = GATE_NOTATION[expr.gate];
+  const args = expr.args.map(arg => formatExpression(arg, false));
+  const compound = join !== undefined && args.length > 1;
+  const body = fn ? `${fn}(${args.join(', ')})` : compound ? args.join(join) : args[0];
+  if (negate) return `¬${compound ? `(${body})` : body}`;
+  return compound && !outer ? `(${body})` : body;
+};
+
+// Every assignment of the variables, or null if there are too many
+export const buildTruthTable = (expr: Expr): TruthTable | null => {
+  const variables = expressionVariables(expr);
+  if (variables.length > MAX_TABLE_VARIABLES) return null;
+  const names = variables.map(variableName);
+  const rows = Array.from({ length: 2 ** variables.length }, (_, row) => {
+    const values = names.map((_, i) => ((row >> (names.length - 1 - i)) & 1) as 0 | 1);
+    const result = evaluateExpression(expr, Object.fromEntries(names.map((name, i) => [name, values[i]])));
+    return { values, result };
+  });
+  return { variables, rows };
+};
+
+const bitCount = (n: number): number => {
+  let count = 0;
+  for (; n; n &= n - 1) count++;
+  return count;
+};
+
+// Minimal sum of products by Quine-McCluskey: merge minterms into prime
+// implicants, take the essential ones, then cover the rest greedily.
+// [] is the constant 0 and [[]] the constant 1.
+export const simplifyTable = ({ variables, rows }: TruthTable): Product[] => {
+  const n = variables.length;
+  const minterms = rows.map((r, i) => (r.result === 1 ? i : -1)).filter(i => i !== -1);
+  if (minterms.length === 0) return [];
+  if (minterms.length === rows.length) return [[]];
+
+  // An implicant fixes the bits outside `mask` to those of `value`
+  type Implicant = { value: number; mask: number };
+  const primes: Implicant[] = [];
+  let current: Implicant[] = minterms.map(value => ({ value, mask: 0 }));
+  while (current.length > 0) {
+    const merged = new Map<string, Implicant>();
+    const used = new Set<number>();
+    current.forEach((a, i) => current.forEach((b, j) => {
+      if (j <= i || a.mask !== b.mask) return;
+      const diff = a.value ^ b.value;
+      if (bitCount(diff) !== 1) return;
+      used.add(i).add(j);
+      const value = a.value & ~diff;
+      merged.set(`${value}|${a.mask | diff}`, { value, mask: a.mask | diff });
+    }));
+    current.forEach((imp, i) => { if (!used.has(i)) primes.push(imp); });
+    current = [...merged.values()];
+  }
+
+  const covers = (imp: Implicant, m: number) => (m & ~imp.mask) === (imp.value & ~imp.mask);
+  const chosen: Implicant[] = [];
+  let uncovered = minterms;
+  const take = (imp: Implicant) => {
+    chosen.push(imp);
+    uncovered = uncovered.filter(m => !covers(imp, m));
+  };
+  minterms.forEach(m => {
+    const options = primes.filter(p => covers(p, m));
+    if (options.length === 1 && !chosen.includes(options[0])) take(options[0]);
+  });
+  while (uncovered.length > 0) {
+    const best = primes.reduce((a, b) =>
+      uncovered.filter(m => covers(b, m)).length > uncovered.filter(m => covers(a, m)).length ? b : a
+    );
+    take(best);
+  }
+
+  return chosen.map(imp =>
+    variables
+      .map((variable, i) => ({ variable, bit: 1 << (n - 1 - i) }))
+      .filter(({ bit }) => !(imp.mask & bit))
+      .map(({ variable, bit }) => ({ variable, negated: !(imp.value & bit) }))
+  );
+};
+
+export const formatProducts = (products: Product[]): string => {
+  if (products.length === 0) return '0';
+  if (products.some(p => p.length === 0)) return '1';
+  const term = (p: Product) => p.map(l => `${l.negated ? '¬' : ''}${variableName(l.variable)}`).join(' ∧ ');
+  return products.length === 1 ? term(products[0]) : products.map(p => (p.length > 1 ? `(${term(p)})` : term(p))).join(' ∨ ');
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { ActionCardType, Card, GameState, GateType, PlayerId } from '../types';
+import { createGame, reduce, validateAction } from './gameEngine';
+import { parseLayout } from './layoutService';
+
+// A fresh depth 3 game with known hands
+const gameWith = (hands: Partial<Record<PlayerId, Card[]>>): GameState => {
+  const game = createGame({ isAI: false, seed: 'ENGINE' });
+  return {
+    ...game,
+    players: {
+      P1: { ...game.players.P1, hand: hands.P1 ?? game.players.P1.hand },
+      P2: { ...game.players.P2, hand: hands.P2 ?? game.players.P2.hand },
+    },
+  };
+};
+
+describe('validateAction', () => {
+  const game = gameWith({ P1: [GateType.AND, GateType.AND3, ActionCardType.FLIP], P2: [GateType.OR, GateType.OR, GateType.XOR] });
+
+  it('accepts a legal placement', () => {
+    expect(validateAction(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 0 })).toBeNull();
+  });
+
+  it('refuses a move out of turn', () => {
+    expect(validateAction(game, { type: 'PLACE', playerId: 'P2', slotId: 3, handIndex: 0 })?.code).toBe('NOT_YOUR_TURN');
+  });
+
+  it('refuses a slot that does not exist', () => {
+    expect(validateAction(game, { type: 'PLACE', playerId: 'P1', slotId: 99, handIndex: 0 })?.code).toBe('INVALID_SLOT');
+  });
+
+  it('refuses a hand index out of range', () => {
+    expect(validateAction(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 3 })?.code).toBe('INVALID_HAND_INDEX');
+  });
+
+  it('refuses to place an action card', () => {
+    expect(validateAction(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 2 })?.code).toBe('NOT_A_GATE');
+  });
+
+  it('refuses a gate wider than the slot', () => {
+    const error = validateAction(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 1 });
+    expect(error?.code).toBe('GATE_DOES_NOT_FIT');
+    expect(error?.message).toBe('AND3 needs 3 sources; slot 3 has 2.');
+  });
+
+  it('refuses a slot that already holds a gate', () => {
+    const next = reduce(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 0 });
+    expect(validateAction(next, { type: 'PLACE', playerId: 'P2', slotId: 3, handIndex: 0 })?.code).toBe('SLOT_OCCUPIED');
+  });
+
+  it('refuses an action card played without holding it', () => {
+    expect(validateAction(game, { type: 'FLIP', playerId: 'P1', handIndex: 0, inputIndex: 0 })?.code).toBe('WRONG_CARD');
+  });
+
+  it('refuses to time out an untimed game', () => {
+    expect(validateAction(game, { type: 'TIMEOUT', playerId: 'P1' })?.code).toBe('UNTIMED_GAME');
+  });
+
+  it('refuses every move once the game is over', () => {
+    const over: GameState = { ...game, winner: 'P1', endReason: 'BOARD_FULL' };
+    expect(validateAction(over, { type: 'DISCARD', playerId: 'P1' })?.code).toBe('GAME_OVER');
+  });
+});
+
+describe('reduce', () => {
+  const game = gameWith({ P1: [GateType.AND, GateType.OR, GateType.XOR] });
+
+  it('returns the same state for a refused move', () => {
+    expect(reduce(game, { type: 'PLACE', playerId: 'P2', slotId: 3, handIndex: 0 })).toBe(game);
+    expect(reduce(game, { type: 'PLACE', playerId: 'P1', slotId: 99, handIndex: 0 })).toBe(game);
+  });
+
+  it('places the gate, refills the hand and passes the turn', () => {
+    const next = reduce(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 1 });
+    expect(next.board[3].gate).toBe(GateType.OR);
+    expect(next.players.P1.hand).toHaveLength(3);
+    expect(next.players.P1.hand.slice(0, 2)).toEqual([GateType.AND, GateType.XOR]);
+    expect(next.currentPlayer).toBe('P2');
+    expect(next.turnCount).toBe(1);
+  });
+
+  it('discards the whole hand for a fresh one', () => {
+    const next = reduce(game, { type: 'DISCARD', playerId: 'P1' });
+    expect(next.deck.discardPile).toEqual([GateType.AND, GateType.OR, GateType.XOR]);
+    expect(next.players.P1.hand).toHaveLength(3);
+    expect(next.currentPlayer).toBe('P2');
+  });
+
+  it('ends the game once the board is full', () => {
+    const layout = parseLayout({ id: 'single', name: 'Single', inputCount: 2, slots: [['i0', 'i1']] });
+    const single = createGame({ isAI: false, seed: 'ENGINE', layout });
+    const next = reduce(
+      { ...single, players: { ...single.players, P1: { ...single.players.P1, hand: [GateType.AND, GateType.OR, GateType.XOR] } } },
+      { type: 'PLACE', playerId: 'P1', slotId: 0, handIndex: 0 }
+    );
+    expect(next.board[0].value).toBe(next.inputs[0] & next.inputs[1]);
+    expect(next.winner).toBe(next.board[0].value === 1 ? 'P1' : 'P2');
+    expect(next.endReason).toBe('BOARD_FULL');
+  });
+});
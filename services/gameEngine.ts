@@ -0,0 +1,383 @@
+import { GameState, GameAction, ActionError, BoardNode, Card, GateType, Player, PlayerId, AIEngine, SolverLevel, DeckComposition, DeckEmptyRule, CircuitLayout, TimeControl, ActionCardType } from '../types';
+import { generateInputs, evaluateBoard, fitsSlot, GATE_ARITY, DEFAULT_DEPTH, MIN_DEPTH, MAX_DEPTH } from './logicService';
+import { treeLayout, createBoard } from './layoutService';
+import { createRng, hashSeed, normalizeSeed, randomSeed } from './randomService';
+import { STANDARD_DECK, createDeck, drawCards } from './deckService';
+import { createClock, chargeClock } from './clockService';
+import { isGateCard } from './actionCardService';
+
+export const HAND_SIZE = 3;
+
+export interface GameOptions {
+  isAI: boolean; // Is P2 an AI?
+  depth?: number; // Tree depth, clamped to MIN_DEPTH..MAX_DEPTH
+  layout?: CircuitLayout; // Any other circuit shape; overrides depth
+  seed?: string; // Fixes inputs and draw order; random if omitted
+  aiEngine?: AIEngine;
+  aiLevel?: SolverLevel;
+  deckComposition?: DeckComposition; // Defaults to STANDARD_DECK
+  deckEmptyRule?: DeckEmptyRule; // Defaults to RESHUFFLE
+  timeControl?: TimeControl; // Untimed if omitted
+}
+
+const playerName = (id: PlayerId, options: GameOptions): string => {
+  if (id === 'P2' && options.isAI) {
+    return options.aiEngine === 'SOLVER' ? `Solver (${options.aiLevel ?? 'MEDIUM'})` : 'Cortex (AI)';
+  }
+  return id === 'P1' ? 'Player 1' : 'Player 2';
+};
+
+export const createPlayer = (id: PlayerId, name: string, hand: Card[]): Player => ({
+  id,
+  name,
+  targetValue: id === 'P1' ? 1 : 0,
+  color: id === 'P1' ? 'blue' : 'red',
+  hand,
+});
+
+export const createEmptyBoard = (depth: number = DEFAULT_DEPTH): BoardNode[] => createBoard(treeLayout(depth));
+
+// Throws unless the deck deals a gate for every slot. A slot nothing fits
+// would stay empty, so the board could never fill and the match never end.
+export const checkLayoutFitsDeck = (layout: CircuitLayout, composition: DeckComposition) => {
+  const gates = (Object.values(GateType) as GateType[]).filter(g => composition[g] > 0);
+  const slot = createBoard(layout).find(node => !gates.some(g => fitsSlot(g, node)));
+  if (slot) {
+    const sources = slot.sources.length;
+    throw new Error(`${layout.name}: slot ${slot.id} has ${sources} ${sources === 1 ? 'source' : 'sources'}, and no gate in this deck fits it.`);
+  }
+};
+
+// Inputs are generated first, then the deck is shuffled and P1's and P2's
+// opening hands are dealt, all from the same seeded stream.
+// Throws if the deck cannot fill the layout.
+export const createGame = (options: GameOptions): GameState => {
+  const depth = Math.min(MAX_DEPTH, Math.max(MIN_DEPTH, Math.round(options.depth ?? DEFAULT_DEPTH)));
+  const layout = options.layout ?? treeLayout(depth);
+  const composition = options.deckComposition ?? STANDARD_DECK;
+  checkLayoutFitsDeck(layout, composition);
+  const board = createBoard(layout);
+  const seed = normalizeSeed(options.seed ?? '') || randomSeed();
+  const rng = createRng(hashSeed(seed));
+  const inputs = generateInputs(layout.inputCount, rng.next);
+
+  let deck = createDeck(
+    composition,
+    options.deckEmptyRule ?? 'RESHUFFLE',
+    board.length + HAND_SIZE * 2,
+    rng.next
+  );
+  const deal = () => {
+    const result = drawCards(deck, HAND_SIZE, rng.next);
+    deck = result.deck;
+    return result.cards;
+  };
+  const players = {
+    P1: createPlayer('P1', playerName('P1', options), deal()),
+    P2: createPlayer('P2', playerName('P2', options), deal()),
+  };
+
+  return {
+    layout,
+    seed,
+    rngState: rng.getState(),
+    board,
+    inputs,
+    players,
+    deck,
+    currentPlayer: 'P1',
+    winner: null,
+    endReason: null,
+    puzzle: null,
+    clock: options.timeControl ? createClock(options.timeControl) : null,
+    flippedInputs: [],
+    peeks: { P1: null, P2: null },
+    turnCount: 0,
+    history: [],
+    moves: [],
+    isAI: options.isAI,
+    aiEngine: options.aiEngine ?? 'CORTEX',
+    aiLevel: options.aiLevel ?? 'MEDIUM',
+  };
+};
+
+export const getOpponent = (id: PlayerId): PlayerId => (id === 'P1' ? 'P2' : 'P1');
+
+// Check an action against the current state.
+// Returns null if the action is legal, otherwise a structured error.
+export const validateAction = (state: GameState, action: GameAction): ActionError | null => {
+  if (state.winner) {
+    return { code: 'GAME_OVER', message: 'The game is already over.' };
+  }
+  if (action.playerId !== state.currentPlayer) {
+    return { code: 'NOT_YOUR_TURN', message: `It is ${state.currentPlayer}'s turn, not ${action.playerId}'s.` };
+  }
+  if (action.type === 'TIMEOUT' && !state.clock) {
+    return { code: 'UNTIMED_GAME', message: 'This game has no clocks to run out.' };
+  }
+
+  const hand = state.players[action.playerId].hand;
+  const slot = 'slotId' in action ? state.board[action.slotId] : undefined;
+  if ('slotId' in action && (!Number.isInteger(action.slotId) || !slot)) {
+    return { code: 'INVALID_SLOT', message: `Slot ${action.slotId} does not exist.` };
+  }
+  if ('handIndex' in action && !inHand(hand, action.handIndex)) {
+    return { code: 'INVALID_HAND_INDEX', message: `Hand index ${action.handIndex} is out of range.` };
+  }
+  // An action card action has to be played with that very card
+  if (action.type !== 'PLACE' && 'handIndex' in action && hand[action.handIndex] !== action.type) {
+    return { code: 'WRONG_CARD', message: `${action.type} needs a ${action.type} card; hand card ${action.handIndex} is ${hand[action.handIndex]}.` };
+  }
+
+  if (action.type === 'PLACE') {
+    // Puzzles let the solver replace any gate that is not locked
+    if (slot!.gate !== null && !(state.puzzle && !slot!.locked)) {
+      return { code: 'SLOT_OCCUPIED', message: `Slot ${action.slotId} already holds ${slot!.gate}.` };
+    }
+    return gateError(hand[action.handIndex], slot!);
+  }
+
+  if (action.type === 'OVERWRITE' || action.type === 'LOCK') {
+    if (slot!.gate === null) {
+      return { code: 'SLOT_EMPTY', message: `Slot ${action.slotId} has no gate to ${action.type === 'LOCK' ? 'lock' : 'overwrite'}.` };
+    }
+    if (slot!.locked) {
+      return { code: 'SLOT_LOCKED', message: `The ${slot!.gate} in slot ${action.slotId} is locked.` };
+    }
+  }
+
+  if (action.type === 'OVERWRITE') {
+    if (!inHand(hand, action.gateIndex) || action.gateIndex === action.handIndex) {
+      return { code: 'INVALID_HAND_INDEX', message: `Gate index ${action.gateIndex} does not name another card in hand.` };
+    }
+    return gateError(hand[action.gateIndex], slot!);
+  }
+
+  if (action.type === 'FLIP') {
+    if (!Number.isInteger(action.inputIndex) || action.inputIndex < 0 || action.inputIndex >= state.inputs.length) {
+      return { code: 'INVALID_INPUT', message: `Input ${action.inputIndex} does not exist.` };
+    }
+    if (state.flippedInputs.includes(action.inputIndex)) {
+      return { code: 'INPUT_ALREADY_FLIPPED', message: `Input ${action.inputIndex} has already been flipped this game.` };
+    }
+  }
+
+  return null;
+};
+
+const inHand = (hand: Card[], index: number): boolean => Number.isInteger(index) && index >= 0 && index < hand.length;
+
+// Can this card go into this slot as a gate?
+const gateError = (card: Card, slot: BoardNode): ActionError | null => {
+  if (!isGateCard(card)) {
+    return { code: 'NOT_A_GATE', message: `${card} is an action card; it can't be placed in a slot.` };
+  }
+  if (!fitsSlot(card, slot)) {
+    return { code: 'GATE_DOES_NOT_FIT', message: `${card} needs ${GATE_ARITY[card]} sources; slot ${slot.id} has ${slot.sources.length}.` };
+  }
+  return null;
+};
+
+// Every action the engine would accept from this player right now.
+// Moves repeat once per distinct card in hand, not per copy.
+export const listLegalActions = (state: GameState, playerId: PlayerId): GameAction[] => {
+  const actions: GameAction[] = [];
+  const hand = state.players[playerId].hand;
+  const distinct = hand.map((card, i) => hand.indexOf(card) === i);
+  const add = (action: GameAction) => {
+    if (!validateAction(state, action)) actions.push(action);
+  };
+
+  state.board.forEach(node => {
+    hand.forEach((_, handIndex) => {
+      if (distinct[handIndex]) add({ type: 'PLACE', playerId, slotId: node.id, handIndex });
+    });
+  });
+
+  const card = (type: ActionCardType) => hand.indexOf(type);
+  if (card(ActionCardType.OVERWRITE) !== -1) {
+    state.board.forEach(node => hand.forEach((_, gateIndex) => {
+      if (distinct[gateIndex]) add({ type: 'OVERWRITE', playerId, handIndex: card(ActionCardType.OVERWRITE), slotId: node.id, gateIndex });
+    }));
+  }
+  if (card(ActionCardType.LOCK) !== -1) {
+    state.board.forEach(node => add({ type: 'LOCK', playerId, handIndex: card(ActionCardType.LOCK), slotId: node.id }));
+  }
+  if (card(ActionCardType.FLIP) !== -1) {
+    state.inputs.forEach((_, inputIndex) => add({ type: 'FLIP', playerId, handIndex: card(ActionCardType.FLIP), inputIndex }));
+  }
+  if (card(ActionCardType.PEEK) !== -1) {
+    add({ type: 'PEEK', playerId, handIndex: card(ActionCardType.PEEK) });
+  }
+
+  add({ type: 'DISCARD', playerId });
+  return actions;
+};
+
+// Human readable summary of an action, used for commentary and history.
+export const describeAction = (state: GameState, action: GameAction): string => {
+  const late = action.timedOut ? ' (out of time)' : '';
+  const hand = state.players[action.playerId].hand;
+  switch (action.type) {
+    case 'TIMEOUT':
+      return 'Ran out of time';
+    case 'PLACE':
+      return `Placed ${hand[action.handIndex]} at Slot ${action.slotId}${late}`;
+    case 'OVERWRITE':
+      return `Overwrote ${state.board[action.slotId].gate} at Slot ${action.slotId} with ${hand[action.gateIndex]}`;
+    case 'LOCK':
+      return `Locked ${state.board[action.slotId].gate} at Slot ${action.slotId}`;
+    case 'FLIP':
+      return `Flipped input ${action.inputIndex} to ${1 - state.inputs[action.inputIndex]}`;
+    case 'PEEK':
+      return "Peeked at the opponent's hand";
+    default:
+      return `Discarded hand and skipped turn${late}`;
+  }
+};
+
+// Whoever targets the root's current value wins. An undecided root (the match
+// stopped early) is a draw, except in puzzles where the lock simply holds.
+const winnerByRoot = (state: GameState, board: BoardNode[]): PlayerId | 'DRAW' => {
+  const value = board[0].value;
+  if (value === null) return state.puzzle ? 'P2' : 'DRAW';
+  return value === state.players.P1.targetValue ? 'P1' : 'P2';
+};
+
+// The clock of the player to move ran out. Depending on the time control
+// they lose, or the engine moves for them: a discard, or a random legal
+// placement picked from the seeded stream (a discard if nothing fits).
+// The penalty move is recorded like any other, so replays need no randomness.
+const timeOut = (state: GameState, action: GameAction): GameState => {
+  const clock = state.clock!;
+  const { playerId } = action;
+  const timing = { elapsedMs: clock.remainingMs[playerId], timedOut: true };
+
+  if (clock.control.timeoutRule === 'LOSS') {
+    const player = state.players[playerId];
+    return {
+      ...state,
+      history: [...state.history, `${player.name}: ${describeAction(state, action)}`],
+      moves: [...state.moves, { action: { ...action, ...timing }, hand: player.hand }],
+      turnCount: state.turnCount + 1,
+      clock: { ...clock, remainingMs: { ...clock.remainingMs, [playerId]: 0 } },
+      winner: getOpponent(playerId),
+      endReason: 'TIMEOUT',
+    };
+  }
+
+  const placements = clock.control.timeoutRule === 'RANDOM_PLACE'
+    ? listLegalActions(state, playerId).filter(a => a.type === 'PLACE')
+    : [];
+  if (placements.length === 0) return reduce(state, { type: 'DISCARD', playerId, ...timing });
+  const rng = createRng(state.rngState);
+  const pick = placements[Math.floor(rng.next() * placements.length)];
+  return reduce({ ...state, rngState: rng.getState() }, { ...pick, ...timing });
+};
+
+// Apply an action and return the next state.
+// Invalid actions leave the state untouched; use validateAction to find out why.
+// Shuffles and draws advance the seeded stream stored in state.rngState, so the
+// same state and action always produce the same result.
+export const reduce = (state: GameState, action: GameAction): GameState => {
+  if (validateAction(state, action)) return state;
+  if (action.type === 'TIMEOUT') return timeOut(state, action);
+
+  const rng = createRng(state.rngState);
+  const player = state.players[action.playerId];
+  const base = {
+    ...state,
+    history: [...state.history, `${player.name}: ${describeAction(state, action)}`],
+    moves: [...state.moves, { action, hand: player.hand }],
+    turnCount: state.turnCount + 1,
+    clock: state.clock && chargeClock(state.clock, action.playerId, action.elapsedMs ?? 0),
+  };
+
+  let board = state.board;
+  let hand: Card[];
+  let deck = state.deck;
+  let { inputs, flippedInputs, peeks } = state;
+
+  if (action.type === 'PLACE') {
+    // 1. Update Board (a replaced puzzle gate goes to the discard pile)
+    const gate = player.hand[action.handIndex] as GateType; // validateAction only lets gates be placed
+    const replaced = state.board[action.slotId].gate;
+    if (replaced) deck = { ...deck, discardPile: [...deck.discardPile, replaced] };
+    const newBoard = [...state.board];
+    newBoard[action.slotId] = { ...newBoard[action.slotId], gate };
+
+    // 2. Evaluate Circuit
+    board = evaluateBoard(newBoard, state.inputs);
+
+    // 3. Remove the used card
+    hand = [...player.hand];
+    hand.splice(action.handIndex, 1);
+
+    // 4. Check Win. A duel ends when the board is full; a puzzle ends as soon
+    // as the root shows the target, which unary gates allow before it fills.
+    const full = board.every(n => n.gate !== null);
+    const cracked = state.puzzle !== null && board[0].value === state.puzzle.target;
+    if (cracked || (full && !state.puzzle)) {
+      const players = { ...state.players, [action.playerId]: { ...player, hand } };
+      return { ...base, board, deck, players, winner: winnerByRoot(state, board), endReason: 'BOARD_FULL' };
+    }
+  } else if (action.type === 'DISCARD') {
+    // DISCARD: the whole hand goes to the discard pile
+    deck = { ...deck, discardPile: [...deck.discardPile, ...player.hand] };
+    hand = [];
+  } else {
+    // Action cards: the card is spent, and OVERWRITE also uses up a gate
+    const spent: Card[] = [player.hand[action.handIndex]];
+    hand = player.hand.filter((_, i) => i !== action.handIndex && !(action.type === 'OVERWRITE' && i === action.gateIndex));
+
+    if (action.type === 'OVERWRITE') {
+      spent.push(state.board[action.slotId].gate!);
+      const gate = player.hand[action.gateIndex] as GateType;
+      board = evaluateBoard(board.map(n => (n.id === action.slotId ? { ...n, gate } : n)), inputs);
+    } else if (action.type === 'LOCK') {
+      board = board.map(n => (n.id === action.slotId ? { ...n, locked: true } : n));
+    } else if (action.type === 'FLIP') {
+      inputs = inputs.map((v, i) => (i === action.inputIndex ? (1 - v) as 0 | 1 : v));
+      flippedInputs = [...flippedInputs, action.inputIndex];
+      board = evaluateBoard(board, inputs);
+    } else {
+      const opponent = getOpponent(action.playerId);
+      peeks = { ...peeks, [action.playerId]: { hand: state.players[opponent].hand, turn: state.turnCount } };
+    }
+    deck = { ...deck, discardPile: [...deck.discardPile, ...spent] };
+  }
+
+  // Draw back up to hand size
+  const drawn = drawCards(deck, HAND_SIZE - hand.length, rng.next);
+  hand = [...hand, ...drawn.cards];
+  deck = drawn.deck;
+
+  const next: GameState = {
+    ...base,
+    board,
+    inputs,
+    flippedInputs,
+    peeks,
+    deck,
+    players: { ...state.players, [action.playerId]: { ...player, hand } },
+    // The solver keeps the turn in puzzles
+    currentPlayer: state.puzzle ? action.playerId : getOpponent(action.playerId),
+    rngState: rng.getState(),
+  };
+
+  // Out of cards: END_GAME stops at the first failed draw, and under RESHUFFLE
+  // the match stops once the next player has nothing left to play. Puzzles
+  // keep going on whatever is left in hand.
+  const outOfCards = deck.emptyRule === 'END_GAME' && !state.puzzle
+    ? drawn.exhausted
+    : next.players[next.currentPlayer].hand.length === 0;
+  if (outOfCards) {
+    return { ...next, currentPlayer: action.playerId, winner: winnerByRoot(state, board), endReason: 'DECK_EMPTY' };
+  }
+
+  if (state.puzzle && next.turnCount >= state.puzzle.moveLimit) {
+    return { ...next, winner: 'P2', endReason: 'MOVE_LIMIT' };
+  }
+
+  return next;
+};
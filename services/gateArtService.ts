@@ -0,0 +1,141 @@
+import { GateType, CardArt } from '../types';
+import { evaluateGate, GATE_ARITY } from './logicService';
+
+// Procedural card faces: the gate's schematic symbol (ANSI distinctive
+// shapes or IEC rectangular boxes), its name and a truth table, drawn as SVG
+// so cards read correctly offline and before any AI art arrives.
+
+export const CARD_ART_OPTIONS: { id: CardArt; label: string }[] = [
+  { id: 'ANSI', label: 'ANSI SYMBOLS' },
+  { id: 'IEC', label: 'IEC SYMBOLS' },
+  { id: 'AI', label: 'AI ARTWORK' },
+];
+
+const GATE_HEX: Record<GateType, string> = {
+  [GateType.AND]: '#facc15',
+  [GateType.OR]: '#60a5fa',
+  [GateType.XOR]: '#c084fc',
+  [GateType.NAND]: '#f87171',
+  [GateType.NOR]: '#22d3ee',
+  [GateType.XNOR]: '#e879f9',
+  [GateType.NOT]: '#fb923c',
+  [GateType.BUFFER]: '#a3e635',
+  [GateType.AND3]: '#f59e0b',
+  [GateType.OR3]: '#818cf8',
+  [GateType.MAJ3]: '#34d399',
+};
+
+const IEC_LABELS: Record<GateType, string> = {
+  [GateType.AND]: '&amp;',
+  [GateType.OR]: '≥1',
+  [GateType.XOR]: '=1',
+  [GateType.NAND]: '&amp;',
+  [GateType.NOR]: '≥1',
+  [GateType.XNOR]: '=1',
+  [GateType.NOT]: '1',
+  [GateType.BUFFER]: '1',
+  [GateType.AND3]: '&amp;',
+  [GateType.OR3]: '≥1',
+  [GateType.MAJ3]: '≥2',
+};
+
+const INVERTED = new Set([GateType.NAND, GateType.NOR, GateType.XNOR, GateType.NOT]);
+const AND_FAMILY = new Set([GateType.AND, GateType.NAND, GateType.AND3]);
+const OR_FAMILY = new Set([GateType.OR, GateType.NOR, GateType.XOR, GateType.XNOR, GateType.OR3]);
+const UNARY = new Set([GateType.NOT, GateType.BUFFER]);
+
+// Where the input leads enter, by number of inputs
+const LEAD_Y: Record<number, number[]> = { 1: [20], 2: [10, 30], 3: [6, 20, 34] };
+
+// Symbol in an 80x40 box: inputs enter on the left, the output leaves on the
+// right at y=20. ANSI has no distinctive majority shape, so MAJ3 is a box there too.
+const drawSymbol = (type: GateType, standard: 'ANSI' | 'IEC', color: string): string => {
+  const stroke = `stroke="${color}" stroke-width="2.5" fill="#111827"`;
+  const bubble = (cx: number) => `<circle cx="${cx}" cy="20" r="4" ${stroke}/>`;
+  const leads = `<path d="${LEAD_Y[GATE_ARITY[type]].map(y => `M0,${y} H26`).join(' ')}" stroke="${color}" stroke-width="2"/>`;
+  const box = (label: string) => `<rect x="22" y="0" width="36" height="40" ${stroke}/>`
+    + `<text x="40" y="25" text-anchor="middle" font-family="monospace" font-size="13" font-weight="bold" fill="${color}">${label}</text>`;
+
+  if (standard === 'IEC' || type === GateType.MAJ3) {
+    const out = INVERTED.has(type) ? 66 : 58;
+    return `${leads}<path d="M${out},20 H80" stroke="${color}" stroke-width="2"/>`
+      + box(standard === 'IEC' ? IEC_LABELS[type] : 'MAJ')
+      + (INVERTED.has(type) ? bubble(62) : '');
+  }
+
+  const out = INVERTED.has(type) ? 70 : 62;
+  let body = '';
+  if (AND_FAMILY.has(type)) body = `<path d="M22,0 H42 A20,20 0 0 1 42,40 H22 Z" ${stroke}/>`;
+  if (OR_FAMILY.has(type)) body = `<path d="M20,0 Q44,0 62,20 Q44,40 20,40 Q30,20 20,0 Z" ${stroke}/>`;
+  if (UNARY.has(type)) body = `<path d="M24,2 L62,20 L24,38 Z" ${stroke}/>`;
+  const exclusive = type === GateType.XOR || type === GateType.XNOR;
+  return `${leads}<path d="M${out},20 H80" stroke="${color}" stroke-width="2"/>`
+    + body
+    + (exclusive ? `<path d="M13,0 Q23,20 13,40" stroke="${color}" stroke-width="2.5" fill="none"/>` : '')
+    + (INVERTED.has(type) ? bubble(66) : '');
+};
+
+// Every input combination in counting order, with the output in colour
+const drawTruthTable = (type: GateType, color: string): string => {
+  const arity = GATE_ARITY[type];
+  const rowCount = 2 ** arity;
+  const step = rowCount > 4 ? 4.5 : 8; // Eight rows squeeze into the space of four
+  const fontSize = rowCount > 4 ? 4.5 : 8;
+  const columnX = (i: number) => 50 - arity * 7 + i * 14; // Inputs centred left of the divider
+  const names = ['A', 'B', 'C'].slice(0, arity);
+
+  const rows = Array.from({ length: rowCount }, (_, r) => {
+    const bits = names.map((_, i) => ((r >> (arity - 1 - i)) & 1) as 0 | 1);
+    const q = evaluateGate(type, ...bits);
+    const y = (rowCount > 4 ? 107 : 108) + r * step;
+    return bits.map((bit, i) => `<text x="${columnX(i) - 8}" y="${y}" fill="#9ca3af">${bit}</text>`).join('')
+      + `<text x="72" y="${y}" fill="${q ? '#22c55e' : '#ef4444'}" font-weight="bold">${q}</text>`;
+  });
+  return `<g font-family="monospace" font-size="${fontSize}" text-anchor="middle">`
+    + names.map((name, i) => `<text x="${columnX(i) - 8}" y="100" fill="${color}">${name}</text>`).join('')
+    + `<text x="72" y="100" fill="${color}">Q</text>`
+    + `<path d="M20,103 H80 M62,94 V142" stroke="#374151" stroke-width="1"/>`
+    + rows.join('')
+    + `</g>`;
+};
+
+export const renderGateSvg = (type: GateType, standard: 'ANSI' | 'IEC'): string => {
+  const color = GATE_HEX[type];
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 143">`
+    + `<rect width="100" height="143" fill="#111827"/>`
+    + `<text x="50" y="24" text-anchor="middle" font-family="monospace" font-size="16" font-weight="bold" fill="${color}">${type}</text>`
+    + `<g transform="translate(10,40)">${drawSymbol(type, standard, color)}</g>`
+    + drawTruthTable(type, color)
+    + `</svg>`;
+};
+
+const FACE_PREFIX = 'data:image/svg+xml;charset=utf-8,';
+
+export const gateFaceUrl = (type: GateType, standard: 'ANSI' | 'IEC' = 'ANSI'): string =>
+  FACE_PREFIX + encodeURIComponent(renderGateSvg(type, standard));
+
+// Procedural faces already carry the gate name; AI art needs a label on top
+export const isProceduralFace = (url: string): boolean => url.startsWith(FACE_PREFIX);
+
+export const gateFaces = (standard: 'ANSI' | 'IEC'): Record<string, string> =>
+  Object.fromEntries(Object.values(GateType).map(type => [type, gateFaceUrl(type, standard)]));
+
+const CARD_ART_KEY = 'logic-lock:card-art';
+
+export const loadCardArt = (): CardArt => {
+  try {
+    const stored = localStorage.getItem(CARD_ART_KEY);
+    if (CARD_ART_OPTIONS.some(s => s.id === stored)) return stored as CardArt;
+  } catch {
+    // Storage disabled
+  }
+  return 'ANSI';
+};
+
+export const saveCardArt = (art: CardArt) => {
+  try {
+    localStorage.setItem(CARD_ART_KEY, art);
+  } catch {
+    // Storage disabled; the choice lasts for this session only
+  }
+};
@@ -0,0 +1,48 @@
+// IndexedDB cache for generated gate art, so each (gate, prompt) pair is
+// requested from the image model at most once per browser.
+// Every failure (no IndexedDB, private mode, quota) reads as a cache miss.
+
+const DB_NAME = 'logic-lock';
+const STORE = 'gate-images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Try again next time
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const imageCacheKey = (gateType: string, prompt: string): string => `${gateType}|${prompt}`;
+
+export const getCachedImage = async (key: string): Promise<string | null> => {
+  try {
+    return (await run<string | undefined>('readonly', store => store.get(key))) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const cacheImage = async (key: string, url: string): Promise<void> => {
+  try {
+    await run('readwrite', store => store.put(url, key));
+  } catch {
+    // Not cached; it will be generated again next load
+  }
+};
@@ -0,0 +1,16 @@
+// Type guards for JSON read from files, storage and the network, so parsers
+// can take `unknown` and narrow it one field at a time.
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const isBit = (value: unknown): value is 0 | 1 => value === 0 || value === 1;
+
+// `value` as one of `options`, for string unions listed in an array
+export const isOneOf = <T>(options: readonly T[], value: unknown): value is T => options.includes(value as T);
+
+// A nested field, or undefined if any step on the way is missing
+export const pick = (value: unknown, ...path: (string | number)[]): unknown =>
+  path.reduce<unknown>((v, key) => (typeof v === 'object' && v !== null ? (v as Record<string | number, unknown>)[key] : undefined), value);
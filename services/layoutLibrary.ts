@@ -0,0 +1,63 @@
+import { CircuitLayout } from '../types';
+import { parseLayout } from './layoutService';
+
+// Built-in circuit shapes, written in the same JSON format players can upload.
+// Slot 0 is the root; "iN" reads input N and "sN" reads the output of slot N.
+const RAW_LAYOUTS = [
+  {
+    id: 'diamond',
+    name: 'Diamond',
+    description: 'The middle gate feeds both sides, and the inner inputs are shared.',
+    inputCount: 4,
+    slots: [
+      ['s1', 's2'],
+      ['s3', 's4'],
+      ['s4', 's5'],
+      ['i0', 'i1'],
+      ['i1', 'i2'],
+      ['i2', 'i3'],
+    ],
+  },
+  {
+    id: 'ladder',
+    name: 'Ladder',
+    description: 'Two rails, and every rung reads both rails below it.',
+    inputCount: 4,
+    slots: [
+      ['s1', 's2'],
+      ['s3', 's4'],
+      ['s4', 's3'],
+      ['s5', 's6'],
+      ['s6', 's5'],
+      ['i0', 'i1'],
+      ['i2', 'i3'],
+    ],
+  },
+  {
+    id: 'bus',
+    name: 'Shared Bus',
+    description: 'One gate reads the whole bus and fans out to three lines.',
+    inputCount: 3,
+    slots: [
+      ['s1', 's2', 's3'],
+      ['s4', 'i0'],
+      ['s4', 'i1'],
+      ['s4', 'i2'],
+      ['i0', 'i1', 'i2'],
+    ],
+  },
+  {
+    id: 'triad',
+    name: 'Triad',
+    description: 'Every gate reads three sources, and neighbouring gates share inputs.',
+    inputCount: 5,
+    slots: [
+      ['s1', 's2', 's3'],
+      ['i0', 'i1', 'i2'],
+      ['i1', 'i2', 'i3'],
+      ['i2', 'i3', 'i4'],
+    ],
+  },
+];
+
+export const BUILTIN_LAYOUTS: CircuitLayout[] = RAW_LAYOUTS.map(parseLayout);
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseLayout, treeLayout } from './layoutService';
+
+const layout = (slots: string[][], inputCount = 2) => ({ id: 'test', name: 'Test', inputCount, slots });
+
+describe('parseLayout', () => {
+  it('accepts a tree and keeps its wiring', () => {
+    const tree = treeLayout(2);
+    expect(parseLayout(tree)).toEqual({ ...tree, description: undefined });
+  });
+
+  it('accepts shared sources and fan-out', () => {
+    expect(() => parseLayout(layout([['s1', 's2'], ['i0', 'i1'], ['s1', 'i1']]))).not.toThrow();
+  });
+
+  it('rejects a cycle between slots', () => {
+    expect(() => parseLayout(layout([['s1', 's2'], ['s2', 'i0'], ['s1', 'i1']]))).toThrow(
+      'Layout "test": Circuit has a cycle: slot 1 → slot 2 → slot 1.'
+    );
+  });
+
+  it('rejects a longer cycle that passes through the root', () => {
+    expect(() => parseLayout(layout([['s1', 'i0'], ['s2', 'i1'], ['s0', 'i0']]))).toThrow(/Circuit has a cycle/);
+  });
+
+  it('rejects a slot that reads its own output', () => {
+    expect(() => parseLayout(layout([['s0', 'i0']]))).toThrow('Layout "test": slot 0 reads its own output.');
+  });
+
+  it('rejects a slot whose output never reaches the root', () => {
+    expect(() => parseLayout(layout([['i0', 'i1'], ['i0', 'i1']]))).toThrow('Layout "test": slot 1 does not feed slot 0.');
+  });
+
+  it('rejects sources that do not exist', () => {
+    expect(() => parseLayout(layout([['i0', 'i2']]))).toThrow('Layout "test": slot 0 reads i2, which does not exist.');
+    expect(() => parseLayout(layout([['i0', 'x1']]))).toThrow(/use "i<n>" or "s<n>"/);
+  });
+
+  it('rejects slots with no sources or too many', () => {
+    expect(() => parseLayout(layout([[]]))).toThrow('Layout "test": slot 0 needs 1-3 sources.');
+    expect(() => parseLayout(layout([['i0', 'i1', 'i0', 'i1']]))).toThrow('Layout "test": slot 0 needs 1-3 sources.');
+  });
+
+  it('rejects values that are not layouts', () => {
+    expect(() => parseLayout(null)).toThrow('Layout must be a JSON object.');
+    expect(() => parseLayout({ ...layout([['i0', 'i1']]), inputCount: 0 })).toThrow(/inputCount must be between 1 and/);
+  });
+});
@@ -0,0 +1,130 @@
+import { BoardNode, CircuitLayout, SignalSource } from '../types';
+import { getBoardSize, getInputCount, getSlotLevels, topologicalOrder } from './logicService';
+import { isObject } from './jsonService';
+
+// Circuit layouts: which sources feed each slot. The classic board is a
+// binary tree generated from its depth; other shapes (diamonds, ladders,
+// shared buses) are loaded from JSON.
+
+export const MAX_LAYOUT_SLOTS = 31; // As many as a depth 5 tree
+export const MAX_LAYOUT_INPUTS = 32;
+export const MAX_SLOT_SOURCES = 3;
+
+// Tree structure indices (depth 3 shown):
+//       0
+//    1     2
+//  3   4 5   6
+// Slot i reads slots i*2+1 and i*2+2, unless it is on the bottom level.
+// Bottom level slots start at index (size-1)/2 and each read two raw inputs:
+// the first takes inputs 0,1, the next 2,3 and so on.
+export const treeLayout = (depth: number): CircuitLayout => {
+  const size = getBoardSize(depth);
+  const firstLeaf = (size - 1) / 2;
+  return {
+    id: `tree-${depth}`,
+    name: `Tree (depth ${depth})`,
+    inputCount: getInputCount(depth),
+    slots: Array.from({ length: size }, (_, i) =>
+      i >= firstLeaf
+        ? [`i${(i - firstLeaf) * 2}`, `i${(i - firstLeaf) * 2 + 1}`]
+        : [`s${i * 2 + 1}`, `s${i * 2 + 2}`]
+    ),
+  };
+};
+
+// "i3" → input 3, "s2" → slot 2
+const parseSource = (ref: string): SignalSource | null => {
+  const match = /^([is])(\d+)$/.exec(ref);
+  if (!match) return null;
+  return { kind: match[1] === 'i' ? 'INPUT' : 'SLOT', index: Number(match[2]) };
+};
+
+export const formatSource = (source: SignalSource): string =>
+  `${source.kind === 'INPUT' ? 'i' : 's'}${source.index}`;
+
+// Empty board for a layout that has already been validated
+export const createBoard = (layout: CircuitLayout): BoardNode[] =>
+  layout.slots.map((refs, id) => ({
+    id,
+    sources: refs.map(ref => parseSource(ref)!),
+    gate: null,
+    value: null,
+  }));
+
+// Check a layout from JSON: every source exists, nothing loops, all slots feed the root
+export const parseLayout = (data: unknown): CircuitLayout => {
+  if (!isObject(data)) throw new Error('Layout must be a JSON object.');
+  const { id, name, description, inputCount, slots } = data;
+  if (typeof id !== 'string' || !id) throw new Error('Layout needs an id.');
+  const label = `Layout "${id}"`;
+  if (typeof name !== 'string') throw new Error(`${label} needs a name.`);
+  if (typeof inputCount !== 'number' || !Number.isInteger(inputCount) || inputCount < 1 || inputCount > MAX_LAYOUT_INPUTS) {
+    throw new Error(`${label}: inputCount must be between 1 and ${MAX_LAYOUT_INPUTS}.`);
+  }
+  if (!Array.isArray(slots) || slots.length === 0 || slots.length > MAX_LAYOUT_SLOTS) {
+    throw new Error(`${label}: slots must be a list of 1-${MAX_LAYOUT_SLOTS} source lists.`);
+  }
+
+  const refLists = slots.map((refs: unknown, slotId) => {
+    if (!Array.isArray(refs) || refs.length === 0 || refs.length > MAX_SLOT_SOURCES) {
+      throw new Error(`${label}: slot ${slotId} needs 1-${MAX_SLOT_SOURCES} sources.`);
+    }
+    return refs.map((ref: unknown) => {
+      const source = typeof ref === 'string' ? parseSource(ref) : null;
+      if (!source) throw new Error(`${label}: slot ${slotId} has source ${JSON.stringify(ref)}; use "i<n>" or "s<n>".`);
+      const limit = source.kind === 'INPUT' ? inputCount : slots.length;
+      if (source.index >= limit) throw new Error(`${label}: slot ${slotId} reads ${ref}, which does not exist.`);
+      if (source.kind === 'SLOT' && source.index === slotId) throw new Error(`${label}: slot ${slotId} reads its own output.`);
+      return ref as string;
+    });
+  });
+
+  const layout: CircuitLayout = {
+    id,
+    name,
+    description: typeof description === 'string' ? description : undefined,
+    inputCount,
+    slots: refLists,
+  };
+
+  const board = createBoard(layout);
+  let order: number[];
+  try {
+    order = topologicalOrder(board);
+  } catch (err) {
+    throw new Error(`${label}: ${(err as Error).message}`);
+  }
+
+  // A slot whose output never reaches the root could not change the result
+  const feedsRoot = new Set([0]);
+  [...order].reverse().forEach(id => {
+    if (!feedsRoot.has(id)) return;
+    board[id].sources.forEach(source => source.kind === 'SLOT' && feedsRoot.add(source.index));
+  });
+  const dangling = board.find(node => !feedsRoot.has(node.id));
+  if (dangling) throw new Error(`${label}: slot ${dangling.id} does not feed slot 0.`);
+
+  return layout;
+};
+
+// Slot ids in each row for drawing, top row (the root) first. A slot sits in
+// the row of its longest wire path up to the root, ordered by where the slots
+// reading it sit.
+export const arrangeRows = (board: BoardNode[]): number[][] => {
+  const levels = getSlotLevels(board);
+  const readers: number[][] = board.map(() => []);
+  board.forEach(node => node.sources.forEach(source => {
+    if (source.kind === 'SLOT') readers[source.index].push(node.id);
+  }));
+
+  const rows: number[][] = [];
+  const x: number[] = []; // Position within the row, 0-1
+  for (let level = 0; level <= Math.max(...levels); level++) {
+    const centre = (id: number) => readers[id].reduce((sum, r) => sum + x[r], 0) / (readers[id].length || 1);
+    const row = board.filter(n => levels[n.id] === level).map(n => n.id)
+      .sort((a, b) => centre(a) - centre(b) || a - b);
+    row.forEach((id, position) => { x[id] = (position + 0.5) / row.length; });
+    rows.push(row);
+  }
+  return rows;
+};
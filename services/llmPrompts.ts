@@ -0,0 +1,101 @@
+import { GateType, AIMoveRequest, AIMoveFeedback } from "../types";
+import { formatSource } from "./layoutService";
+
+// Prompts shared by every LLM provider
+
+export const SYSTEM_INSTRUCTION_COMMENTARY = `
+You are "Cortex", a high-energy, cynical cyberpunk sportscaster for a game called "Logic Lock".
+Two players are building a logic circuit.
+Player 1 (The Architect, Blue) wants the final output to be TRUE (1).
+Player 2 (The Hacker, Red) wants the final output to be FALSE (0).
+
+Your job is to provide a SINGLE sentence commentary on the last move.
+Be witty, technical, or dramatic. Use terms like "signal", "voltage", "gate", "logic flow", "overload".
+Keep it under 25 words.
+`;
+
+export const SYSTEM_INSTRUCTION_AI = `
+You are an expert Logic Gate player.
+You are Player 2. Your Goal is to make the root output 0 (False).
+You will receive the current board state and your available hand.
+
+Analyze the circuit.
+Option 1: PLACE a gate. Choose a slot and a gate that helps force the root to 0.
+Option 2: DISCARD your hand. If your current gates are useless (e.g., all AND gates when you need OR), you can skip your turn to draw new ones.
+Option 3: Play an action card from your hand instead, which also uses your turn:
+- OVERWRITE: replace a placed, unlocked gate with a gate from your hand (give slotId and gateType).
+- LOCK: lock a placed gate so it can never be overwritten (give slotId).
+- FLIP: invert one fixed input; each input can only be flipped once per game (give inputIndex).
+- PEEK: look at your opponent's hand as it is now.
+
+The deck is finite. You can't see your opponent's hand or the draw pile, but you are told how many of each gate are in them together, so you can judge what a discard is likely to bring.
+
+NOT and BUFFER read only the first listed source of their slot. XNOR outputs 1 when both sources match.
+AND3, OR3 and MAJ3 (majority) need a slot with three sources.
+
+Prioritize PLACING a gate if it helps. Only DISCARD if your hand is terrible for the current board state.
+Return valid JSON.
+`;
+
+// Spelled out for backends without structured output
+export const AI_MOVE_FORMAT = `
+Reply with a single JSON object and nothing else:
+{"actionType": "PLACE" | "DISCARD" | "OVERWRITE" | "LOCK" | "FLIP" | "PEEK", "slotId": number (required for PLACE, OVERWRITE and LOCK), "gateType": one of ${Object.values(GateType).map(g => `"${g}"`).join(' | ')} (required for PLACE and OVERWRITE), "inputIndex": number (required for FLIP), "reasoning": string}
+`;
+
+export const buildCommentaryPrompt = (player: string, moveDetails: string, rootValue: 0 | 1 | null): string => `
+      Player: ${player}
+      Action: ${moveDetails}
+      Current Root Output: ${rootValue === null ? "Disconnected" : rootValue}.
+
+      Comment on this move.
+    `;
+
+export const buildMovePrompt = ({ board, inputs, flippedInputs, hand, deck, peek, feedback }: AIMoveRequest): string => {
+  // Serialize board for AI
+  const boardState = board.map(n => ({
+    id: n.id,
+    sources: n.sources.map(formatSource),
+    currentGate: n.gate || "EMPTY",
+    currentValue: n.value,
+    ...(n.gate && n.locked ? { locked: true } : {})
+  }));
+
+  return `
+      Board State: ${JSON.stringify(boardState)}
+      Slot 0 is the root. Each slot reads its sources in order: "iN" is fixed input N, "sN" is the output of slot N.
+      Fixed Inputs: ${JSON.stringify(inputs)}
+      Already Flipped Inputs (can't be flipped again): ${JSON.stringify(flippedInputs)}
+      Your Hand: ${JSON.stringify(hand)}
+${peek ? `      Your opponent's hand when you peeked on turn ${peek.turn}: ${JSON.stringify(peek.hand)}
+` : ''}
+      Draw Pile: ${deck.drawPileSize} cards left. Your opponent holds ${deck.opponentHandSize} cards.
+      Unseen Cards (draw pile and opponent's hand together): ${JSON.stringify(deck.unseen)}
+      Discard Pile: ${JSON.stringify(deck.discarded)}
+      When the draw pile is empty: ${deck.emptyRule === 'RESHUFFLE' ? "the discard pile is reshuffled into it" : "the game ends and the current root value decides"}
+${feedback ? buildFeedback(feedback) : ''}
+      Decide your move.
+    `;
+};
+
+// Sent back when the previous answer was not a legal move
+const buildFeedback = ({ rejected, error, legalMoves }: AIMoveFeedback): string => `
+      Your previous answer ${JSON.stringify(rejected)} was rejected.
+      Error: ${JSON.stringify(error)}
+      Pick exactly one of these legal moves: ${JSON.stringify(legalMoves)}
+`;
+
+// Metaphorical prompts for each gate
+export const GATE_IMAGE_PROMPTS: Record<GateType, string> = {
+  [GateType.AND]: "A simple, cute cartoon sticker of a treasure chest with two different keyholes, requiring two keys to open. Flat vector art style, white background, colorful.",
+  [GateType.OR]: "A simple, cute cartoon sticker of two river streams merging into one big river. Flat vector art style, white background, colorful.",
+  [GateType.XOR]: "A simple, cute cartoon sticker of a playground seesaw with a happy bear up and a sad bear down. Flat vector art style, white background, colorful.",
+  [GateType.NAND]: "A simple, cute cartoon sticker of a cookie jar lid slamming shut because two hands tried to reach in at the same time. Flat vector art style, white background, colorful.",
+  [GateType.NOR]: "A simple, cute cartoon sticker of a shy hermit crab hiding deep in its shell because it is noisy outside. Flat vector art style, white background, colorful.",
+  [GateType.XNOR]: "A simple, cute cartoon sticker of two identical twin cats giving each other a high five. Flat vector art style, white background, colorful.",
+  [GateType.NOT]: "A simple, cute cartoon sticker of a grumpy owl flipping a light switch the opposite way. Flat vector art style, white background, colorful.",
+  [GateType.BUFFER]: "A simple, cute cartoon sticker of a friendly snail carrying a glowing lantern forward unchanged. Flat vector art style, white background, colorful.",
+  [GateType.AND3]: "A simple, cute cartoon sticker of a vault door with three keyholes that all need a key. Flat vector art style, white background, colorful.",
+  [GateType.OR3]: "A simple, cute cartoon sticker of three little streams flowing into one pond. Flat vector art style, white background, colorful.",
+  [GateType.MAJ3]: "A simple, cute cartoon sticker of three penguins voting with raised flippers, two of them agreeing. Flat vector art style, white background, colorful."
+};
@@ -0,0 +1,116 @@
+import { GateType, AIMove, AIMoveRequest, LLMProvider, LLMProviderId, LLMSettings } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAIProvider } from "./openaiService";
+import { createMockProvider } from "./mockLLMService";
+import { GATE_IMAGE_PROMPTS } from "./llmPrompts";
+import { imageCacheKey, getCachedImage, cacheImage } from "./imageCacheService";
+import { isObject } from "./jsonService";
+
+// Entry point for everything LLM-backed. The rest of the app calls these
+// functions; which backend answers is picked in settings.
+
+const SETTINGS_KEY = 'logic-lock:llm-settings';
+
+export const LLM_PROVIDERS: { id: LLMProviderId; label: string }[] = [
+  { id: 'GEMINI', label: 'Google Gemini' },
+  { id: 'OPENAI', label: 'OpenAI-compatible' },
+  { id: 'MOCK', label: 'Offline mock' },
+];
+
+// Sensible starting point when switching provider
+export const PROVIDER_DEFAULTS: Record<LLMProviderId, Omit<LLMSettings, 'provider' | 'apiKey'>> = {
+  GEMINI: { model: 'gemini-2.5-flash', imageModel: 'gemini-2.5-flash-image', baseUrl: '' },
+  OPENAI: { model: 'local-model', imageModel: '', baseUrl: 'http://localhost:8080/v1' },
+  MOCK: { model: 'mock', imageModel: '', baseUrl: '' },
+};
+
+// Without a build-time Gemini key there is nothing to talk to, so start offline
+const defaultSettings = (): LLMSettings => {
+  const provider: LLMProviderId = process.env.API_KEY ? 'GEMINI' : 'MOCK';
+  return { provider, apiKey: '', ...PROVIDER_DEFAULTS[provider] };
+};
+
+export const loadLLMSettings = (): LLMSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    const provider = isObject(stored) ? LLM_PROVIDERS.find(p => p.id === stored.provider)?.id : undefined;
+    if (isObject(stored) && provider) {
+      // Text fields that are missing or mangled keep their defaults
+      const text = (key: keyof Omit<LLMSettings, 'provider'>, fallback: string) =>
+        typeof stored[key] === 'string' ? (stored[key] as string) : fallback;
+      const defaults = defaultSettings();
+      return {
+        provider,
+        model: text('model', defaults.model),
+        imageModel: text('imageModel', defaults.imageModel),
+        baseUrl: text('baseUrl', defaults.baseUrl),
+        apiKey: text('apiKey', defaults.apiKey),
+      };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return defaultSettings();
+};
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'GEMINI': return createGeminiProvider(settings);
+    case 'OPENAI': return createOpenAIProvider(settings);
+    case 'MOCK': return createMockProvider();
+  }
+};
+
+let provider: LLMProvider = createProvider(loadLLMSettings());
+
+// Switch backend and remember the choice
+export const applyLLMSettings = (settings: LLMSettings) => {
+  provider = createProvider(settings);
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled; the choice lasts for this session only
+  }
+};
+
+export const getCommentary = async (
+  player: string,
+  moveDetails: string,
+  rootValue: 0 | 1 | null
+): Promise<string> => {
+  try {
+    const text = await provider.getCommentary(player, moveDetails, rootValue);
+    if (!text.trim()) {
+      return "Signal interrupted... waiting for data.";
+    }
+    return text.trim();
+  } catch (error) {
+    console.error("Commentary Error:", error);
+    return "The system is recalculating... intense moves!";
+  }
+};
+
+export const getAIMove = async (request: AIMoveRequest): Promise<AIMove> => {
+  try {
+    return await provider.getAIMove(request);
+  } catch (error) {
+    console.error("AI Move Error:", error);
+    // The caller falls back to the local solver
+    throw error;
+  }
+};
+
+// Cached per gate and prompt, so art is only generated once
+export const generateGateImage = async (gateType: GateType): Promise<string | null> => {
+  const key = imageCacheKey(gateType, GATE_IMAGE_PROMPTS[gateType]);
+  const cached = await getCachedImage(key);
+  if (cached) return cached;
+  try {
+    const url = await provider.generateGateImage(gateType);
+    if (url) await cacheImage(key, url);
+    return url;
+  } catch (error) {
+    console.error(`Error generating image for ${gateType}:`, error);
+    return null;
+  }
+};
@@ -1,117 +1,139 @@
-import { GateType, BoardNode, PlayerId } from '../types';
+import { GateType, BoardNode, PlayerId, SignalSource } from '../types';
+import { Rng } from './randomService';
 
-export const INITIAL_INPUTS_COUNT = 8;
-export const BOARD_SIZE = 7; // Binary tree depth 3 (1 + 2 + 4)
+// Depth of the default binary tree layout = number of gate levels.
+// A depth d tree has 2^d - 1 slots and 2^d inputs; see layoutService.
+export const MIN_DEPTH = 2;
+export const MAX_DEPTH = 5;
+export const DEFAULT_DEPTH = 3;
+
+export const getBoardSize = (depth: number): number => 2 ** depth - 1;
+export const getInputCount = (depth: number): number => 2 ** depth;
 
 // Helper to generate random inputs
-export const generateInputs = (): (0 | 1)[] => {
-  return Array.from({ length: INITIAL_INPUTS_COUNT }, () => (Math.random() > 0.5 ? 1 : 0));
+export const generateInputs = (count: number, rng: Rng = Math.random): (0 | 1)[] => {
+  return Array.from({ length: count }, () => (rng() > 0.5 ? 1 : 0));
+};
+
+// Every board of a game shares its nodes' source lists, so the last order
+// found is almost always the one asked for next (the solver asks a lot)
+let lastSources: SignalSource[][] = [];
+let lastOrder: number[] = [];
+
+// Slot ids ordered so every slot comes after the slots it reads from.
+// Throws if the wiring loops back on itself, naming the slots in the loop.
+export const topologicalOrder = (nodes: BoardNode[]): number[] => {
+  if (nodes.length === lastSources.length && nodes.every((n, i) => n.sources === lastSources[i])) return lastOrder;
+
+  const order: number[] = [];
+  const state: ('NEW' | 'OPEN' | 'DONE')[] = nodes.map(() => 'NEW');
+  const path: number[] = [];
+
+  const visit = (id: number) => {
+    if (state[id] === 'DONE') return;
+    if (state[id] === 'OPEN') {
+      const loop = [...path.slice(path.indexOf(id)), id];
+      throw new Error(`Circuit has a cycle: slot ${loop.join(' → slot ')}.`);
+    }
+    state[id] = 'OPEN';
+    path.push(id);
+    nodes[id].sources.forEach(source => {
+      if (source.kind === 'SLOT') visit(source.index);
+    });
+    path.pop();
+    state[id] = 'DONE';
+    order.push(id);
+  };
+
+  nodes.forEach(node => visit(node.id));
+  lastSources = nodes.map(n => n.sources);
+  lastOrder = order;
+  return order;
+};
+
+// Longest wire distance from each slot up to the root (root = 0).
+// Used to draw the slots in rows.
+export const getSlotLevels = (nodes: BoardNode[]): number[] => {
+  const levels = nodes.map(() => 0);
+  // Reverse topological order visits every reader before the slots it reads
+  [...topologicalOrder(nodes)].reverse().forEach(id => {
+    nodes[id].sources.forEach(source => {
+      if (source.kind === 'SLOT') levels[source.index] = Math.max(levels[source.index], levels[id] + 1);
+    });
+  });
+  return levels;
+};
+
+// Number of sources each gate reads. A slot with more sources than the gate
+// needs feeds it the first ones and the rest are ignored.
+export const GATE_ARITY: Record<GateType, number> = {
+  [GateType.AND]: 2,
+  [GateType.OR]: 2,
+  [GateType.XOR]: 2,
+  [GateType.NAND]: 2,
+  [GateType.NOR]: 2,
+  [GateType.XNOR]: 2,
+  [GateType.NOT]: 1,
+  [GateType.BUFFER]: 1,
+  [GateType.AND3]: 3,
+  [GateType.OR3]: 3,
+  [GateType.MAJ3]: 3,
 };
 
-// Evaluate a single gate logic
-const evaluateGate = (type: GateType, a: 0 | 1, b: 0 | 1): 0 | 1 => {
+export const fitsSlot = (gate: GateType, node: BoardNode): boolean => GATE_ARITY[gate] <= node.sources.length;
+
+// Evaluate a single gate logic on its sources, in order
+export const evaluateGate = (type: GateType, ...inputs: (0 | 1)[]): 0 | 1 => {
+  const [a, b, c] = inputs;
   switch (type) {
     case GateType.AND: return (a && b) ? 1 : 0;
     case GateType.OR: return (a || b) ? 1 : 0;
     case GateType.XOR: return (a !== b) ? 1 : 0;
     case GateType.NAND: return (!(a && b)) ? 1 : 0;
     case GateType.NOR: return (!(a || b)) ? 1 : 0;
+    case GateType.XNOR: return (a === b) ? 1 : 0;
+    case GateType.NOT: return a ? 0 : 1;
+    case GateType.BUFFER: return a;
+    case GateType.AND3: return (a && b && c) ? 1 : 0;
+    case GateType.OR3: return (a || b || c) ? 1 : 0;
+    case GateType.MAJ3: return (a + b + c >= 2) ? 1 : 0;
     default: return 0;
   }
 };
 
-// Evaluate the entire board recursively
-// Returns a new array of BoardNodes with updated values
+// Evaluate the entire board, sources before the slots reading them.
+// Returns a new array of BoardNodes with updated values.
 export const evaluateBoard = (nodes: BoardNode[], inputs: (0 | 1)[]): BoardNode[] => {
   const newNodes = [...nodes];
 
-  // We calculate from bottom up (highest index to 0)
-  // Indices 3,4,5,6 are leaf gates connected to inputs
-  // Indices 1,2 are middle gates
-  // Index 0 is root
-
-  // Helper to get value of a source (either a node or an input)
-  // Logic:
-  // Node 0 takes (Node 1, Node 2)
-  // Node 1 takes (Node 3, Node 4)
-  // ...
-  // Node i takes inputs from sources.
-  // Level 3 Nodes (3,4,5,6) take from Raw Inputs.
-  // Node 3 takes Inputs 0, 1
-  // Node 4 takes Inputs 2, 3
-  // ...
-  // Node i (where i >= 3) takes Inputs [(i-3)*2] and [(i-3)*2 + 1]
-
-  const getValue = (nodeIndex: number): 0 | 1 | null => {
-    const node = newNodes[nodeIndex];
-    
-    // If no gate is placed, this node breaks the circuit (null)
-    // Alternatively, we could say it passes 0, but null allows us to show "broken" wires
-    if (!node.gate) return null;
-
-    let valA: 0 | 1 | null = null;
-    let valB: 0 | 1 | null = null;
-
-    if (nodeIndex >= 3) {
-      // Leaf nodes connected to raw inputs
-      const inputIndex = (nodeIndex - 3) * 2;
-      valA = inputs[inputIndex];
-      valB = inputs[inputIndex + 1];
-    } else {
-      // Inner nodes connected to children nodes
-      const child1 = nodeIndex * 2 + 1;
-      const child2 = nodeIndex * 2 + 2;
-      
-      // Recursive calculation? No, we can just iterate reverse order if we want, 
-      // but since we are inside a function, let's just assume we call getValue recursively.
-      // However, to fill the array properly, let's just do a bottom-up pass.
-      // Wait, recursive is cleaner for "pulling" values.
-      valA = getValue(child1);
-      valB = getValue(child2);
-    }
-
-    if (valA === null || valB === null) {
-        // If an input is missing (empty slot below), this gate cannot output
-        return null; 
-    }
-
-    return evaluateGate(node.gate, valA, valB);
-  };
-
-  // We only really need to compute them all. Let's do a bottom-up loop to fill the array values.
-  // Loop from 6 down to 0
-  for (let i = BOARD_SIZE - 1; i >= 0; i--) {
+  topologicalOrder(nodes).forEach(i => {
     const node = newNodes[i];
+    // If no gate is placed, this node breaks the circuit (null)
+    // null allows us to show "broken" wires
     if (!node.gate) {
       newNodes[i] = { ...node, value: null };
-      continue;
-    }
-
-    let valA: 0 | 1 | null;
-    let valB: 0 | 1 | null;
-
-    if (i >= 3) {
-       const inputIdx = (i - 3) * 2;
-       valA = inputs[inputIdx];
-       valB = inputs[inputIdx + 1];
-    } else {
-       valA = newNodes[i * 2 + 1].value;
-       valB = newNodes[i * 2 + 2].value;
+      return;
     }
 
-    if (valA !== null && valB !== null) {
-      newNodes[i] = { ...node, value: evaluateGate(node.gate, valA, valB) };
+    // Only the sources the gate reads matter, so a NOT works above
+    // one finished branch even while the other is still empty
+    const used = node.sources
+      .slice(0, GATE_ARITY[node.gate])
+      .map(source => (source.kind === 'INPUT' ? inputs[source.index] : newNodes[source.index].value));
+    if (used.every(v => v !== null)) {
+      newNodes[i] = { ...node, value: evaluateGate(node.gate, ...(used as (0 | 1)[])) };
     } else {
+      // If an input is missing (empty slot below), this gate cannot output
       newNodes[i] = { ...node, value: null };
     }
-  }
+  });
 
   return newNodes;
 };
 
-export const getRandomGate = (): GateType => {
-  const gates = Object.values(GateType);
-  return gates[Math.floor(Math.random() * gates.length)];
+export const getRandomGate = (rng: Rng = Math.random): GateType => {
+  const gates = Object.values(GateType).filter(g => GATE_ARITY[g] <= 2);
+  return gates[Math.floor(rng() * gates.length)];
 };
 
 export const checkWinCondition = (nodes: BoardNode[]): PlayerId | 'DRAW' | null => {
@@ -0,0 +1,232 @@
+import { Card, CommentaryLine, DeckComposition, GameState, GateType, MatchRecord, PlayerId } from '../types';
+import { createGame, reduce, validateAction } from './gameEngine';
+import { evaluateBoard, GATE_ARITY, MIN_DEPTH, MAX_DEPTH } from './logicService';
+import { parseLayout, treeLayout } from './layoutService';
+import { STANDARD_DECK, DECK_EMPTY_RULES, deckOf } from './deckService';
+import { parseTimeControl } from './clockService';
+import { CARD_TYPES } from './actionCardService';
+import { isBit, isCount, isObject, isOneOf, pick } from './jsonService';
+
+// Bump when the shape of MatchRecord changes, and add a step to migrateMatchRecord
+export const MATCH_RECORD_VERSION = 5;
+
+const PLAYER_IDS: PlayerId[] = ['P1', 'P2'];
+const CARDS = CARD_TYPES as string[];
+const MOVE_TYPES = ['PLACE', 'DISCARD', 'TIMEOUT', 'OVERWRITE', 'LOCK', 'FLIP', 'PEEK'];
+const GATES = Object.values(GateType);
+
+// A hand only changes when its owner acts, so the opening hand is the one
+// held for that player's first move (or the current hand if they never moved)
+const openingHand = (state: GameState, id: PlayerId): Card[] =>
+  state.moves.find(m => m.action.playerId === id)?.hand ?? state.players[id].hand;
+
+const emptyStart = (slotCount: number): MatchRecord['start'] => ({
+  gates: Array.from({ length: slotCount }, () => ({ gate: null, locked: false })),
+  flippedInputs: [],
+  turn: 'P1',
+  turnCount: 0,
+});
+
+// Snapshot a match (finished or not) together with its commentary.
+// `opening` is the position before the first move; without one the game is
+// taken to have started on an empty board.
+export const createMatchRecord = (state: GameState, commentary: CommentaryLine[], opening: GameState | null = null): MatchRecord => ({
+  version: MATCH_RECORD_VERSION,
+  createdAt: new Date().toISOString(),
+  seed: state.seed,
+  layout: state.layout,
+  // FLIPs are replayed from the moves, so store the inputs as they started
+  inputs: opening ? opening.inputs : state.inputs.map((v, i) => (state.flippedInputs.includes(i) ? 1 - v : v) as 0 | 1),
+  start: opening
+    ? {
+        gates: opening.board.map(n => ({ gate: n.gate, locked: !!n.locked })),
+        flippedInputs: opening.flippedInputs,
+        turn: opening.currentPlayer,
+        turnCount: opening.turnCount,
+      }
+    : emptyStart(state.layout.slots.length),
+  deck: { composition: state.deck.composition, emptyRule: state.deck.emptyRule },
+  timeControl: state.clock?.control ?? null,
+  players: {
+    P1: { name: state.players.P1.name, isAI: false },
+    P2: {
+      name: state.players.P2.name,
+      isAI: state.isAI,
+      ...(state.isAI ? { aiEngine: state.aiEngine, aiLevel: state.aiLevel } : {}),
+    },
+  },
+  openingHands: { P1: openingHand(state, 'P1'), P2: openingHand(state, 'P2') },
+  moves: state.moves,
+  commentary,
+  result: {
+    winner: state.winner,
+    rootValue: state.board[0].value,
+    turnCount: state.turnCount,
+  },
+});
+
+export const serializeMatchRecord = (record: MatchRecord): string => JSON.stringify(record, null, 2);
+
+export const matchRecordFileName = (record: MatchRecord): string =>
+  `logic-lock-${record.seed}-${record.createdAt.slice(0, 10)}.json`;
+
+const isHand = (v: unknown): v is Card[] =>
+  Array.isArray(v) && v.every(g => typeof g === 'string' && CARDS.includes(g));
+
+// Upgrade an older record one version at a time
+const migrateMatchRecord = (data: Record<string, unknown>): Record<string, unknown> => {
+  if (data.version === 1) {
+    // v1 predates the finite deck: games drew uniformly from all gates
+    data = { ...data, version: 2, deck: { composition: STANDARD_DECK, emptyRule: 'RESHUFFLE' } };
+  }
+  if (data.version === 2) {
+    // v2 only knew the binary tree board, described by its depth
+    const { depth, ...rest } = data;
+    if (typeof depth !== 'number' || !Number.isInteger(depth) || depth < MIN_DEPTH || depth > MAX_DEPTH) {
+      throw new Error(`Depth must be between ${MIN_DEPTH} and ${MAX_DEPTH}.`);
+    }
+    data = { ...rest, version: 3, layout: treeLayout(depth) };
+  }
+  if (data.version === 3) {
+    // v3 games were never timed
+    data = { ...data, version: 4, timeControl: null };
+  }
+  if (data.version === 4) {
+    // v4 games all started on an empty board
+    const slots = pick(data, 'layout', 'slots');
+    data = { ...data, version: 5, start: emptyStart(Array.isArray(slots) ? slots.length : 0) };
+  }
+  return data;
+};
+
+// Read an uploaded record of any version, upgraded to the current one
+export const parseMatchRecord = (json: string): MatchRecord => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  if (!isObject(parsed)) throw new Error('Record must be a JSON object.');
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > MATCH_RECORD_VERSION) {
+    throw new Error(`Unsupported record version ${version} (expected 1-${MATCH_RECORD_VERSION}).`);
+  }
+  const data = migrateMatchRecord(parsed);
+  const { seed, inputs, start, deck, timeControl, players, openingHands, moves, commentary } = data;
+  if (typeof seed !== 'string') throw new Error('Record is missing its seed.');
+  const layout = parseLayout(data.layout);
+  if (!Array.isArray(inputs) || inputs.length !== layout.inputCount || !inputs.every(isBit)) {
+    throw new Error(`Inputs must be ${layout.inputCount} values of 0 or 1.`);
+  }
+  if (!isObject(start) || !Array.isArray(start.gates) || start.gates.length !== layout.slots.length) {
+    throw new Error(`Starting position must list ${layout.slots.length} slots.`);
+  }
+  const gates = start.gates.map((slot: unknown, id) => {
+    const named = pick(slot, 'gate');
+    const gate = named === null ? null : GATES.find(g => g === named);
+    const locked = pick(slot, 'locked');
+    if (gate === undefined) throw new Error(`Starting slot ${id} has an unknown gate.`);
+    if (gate !== null && GATE_ARITY[gate] > layout.slots[id].length) {
+      throw new Error(`Starting slot ${id} cannot hold ${gate}.`);
+    }
+    if (typeof locked !== 'boolean') throw new Error(`Starting slot ${id} has no lock flag.`);
+    return { gate, locked };
+  });
+  const { flippedInputs, turn, turnCount } = start;
+  if (
+    !Array.isArray(flippedInputs) ||
+    !flippedInputs.every((i: unknown) => isCount(i) && i < layout.inputCount) ||
+    new Set(flippedInputs).size !== flippedInputs.length
+  ) {
+    throw new Error('Starting position has invalid flipped inputs.');
+  }
+  if (!isOneOf(PLAYER_IDS, turn)) throw new Error('Starting position has no player to move.');
+  if (!isCount(turnCount)) throw new Error('Starting position has an invalid turn count.');
+  const composition = pick(deck, 'composition');
+  if (!isObject(composition) || !CARDS.every(g => composition[g] === undefined || isCount(composition[g]))) {
+    throw new Error('Deck composition has an invalid card count.');
+  }
+  const emptyRule = pick(deck, 'emptyRule');
+  if (!isOneOf(DECK_EMPTY_RULES, emptyRule)) throw new Error('Deck has an unknown empty-pile rule.');
+  for (const id of PLAYER_IDS) {
+    if (typeof pick(players, id, 'name') !== 'string') throw new Error(`Player ${id} is missing.`);
+    if (!isHand(pick(openingHands, id))) throw new Error(`Opening hand for ${id} is invalid.`);
+  }
+  if (!Array.isArray(moves)) throw new Error('Record has no move list.');
+  moves.forEach((move: unknown, i) => {
+    if (!isOneOf(MOVE_TYPES, pick(move, 'action', 'type'))) throw new Error(`Move ${i + 1} has an unknown action.`);
+    if (!isOneOf(PLAYER_IDS, pick(move, 'action', 'playerId'))) throw new Error(`Move ${i + 1} has no valid player.`);
+    if (!isHand(pick(move, 'hand'))) throw new Error(`Move ${i + 1} has an invalid hand.`);
+  });
+
+  const record: MatchRecord = {
+    ...(data as unknown as MatchRecord),
+    layout,
+    inputs,
+    start: { gates, flippedInputs, turn, turnCount },
+    // Cards added after the record was made had no copies in its deck
+    deck: { composition: deckOf(composition as Partial<DeckComposition>), emptyRule },
+    timeControl: timeControl === null ? null : parseTimeControl(timeControl),
+    // Commentary is cosmetic, so drop malformed lines instead of rejecting the file
+    commentary: Array.isArray(commentary)
+      ? commentary.filter((c: unknown): c is CommentaryLine => isCount(pick(c, 'turn')) && typeof pick(c, 'text') === 'string')
+      : [],
+  };
+
+  // Make sure every move actually replays
+  replayMatch(record);
+  return record;
+};
+
+// Rebuild every position of a match: frame 0 is the starting position and
+// frame i the position after move i. Each move restores the recorded hand
+// first, so the replay does not depend on the random stream.
+export const replayMatch = (record: MatchRecord): GameState[] => {
+  const p2 = record.players.P2;
+  const initial = createGame({
+    isAI: p2.isAI,
+    aiEngine: p2.aiEngine,
+    aiLevel: p2.aiLevel,
+    layout: record.layout,
+    seed: record.seed,
+    deckComposition: record.deck.composition,
+    deckEmptyRule: record.deck.emptyRule,
+    timeControl: record.timeControl ?? undefined,
+  });
+
+  const { start } = record;
+  const board = initial.board.map((node, i) => ({
+    ...node,
+    gate: start.gates[i].gate,
+    ...(start.gates[i].locked ? { locked: true } : {}),
+  }));
+  let state: GameState = {
+    ...initial,
+    inputs: record.inputs,
+    board: evaluateBoard(board, record.inputs),
+    flippedInputs: start.flippedInputs,
+    currentPlayer: start.turn,
+    turnCount: start.turnCount,
+    players: {
+      P1: { ...initial.players.P1, name: record.players.P1.name, hand: record.openingHands.P1 },
+      P2: { ...initial.players.P2, name: p2.name, hand: record.openingHands.P2 },
+    },
+  };
+  const frames = [state];
+
+  record.moves.forEach((move, i) => {
+    const mover = move.action.playerId;
+    state = {
+      ...state,
+      players: { ...state.players, [mover]: { ...state.players[mover], hand: move.hand } },
+    };
+    const error = validateAction(state, move.action);
+    if (error) throw new Error(`Move ${i + 1} is not legal: ${error.message}`);
+    state = reduce(state, move.action);
+    frames.push(state);
+  });
+
+  return frames;
+};
@@ -0,0 +1,35 @@
+import { LLMProvider } from "../types";
+import { hashSeed } from "./randomService";
+import { isGateCard } from "./actionCardService";
+
+// Offline stand-in for development and tests: no network, no key, and the
+// same input always gets the same answer.
+
+const COMMENTARY_LINES = [
+  "Signal rerouted. The grid hums with suspicious calm.",
+  "A bold gate drop! Voltage spikes across the board.",
+  "Cold, calculated logic. The circuit tightens its grip.",
+  "That move just rewrote the logic flow. Brace for overload.",
+  "Sparks fly as the pathways shift beneath them.",
+  "Textbook placement. The root can feel the pressure.",
+];
+
+export const createMockProvider = (): LLMProvider => ({
+  getCommentary: async (player, moveDetails, rootValue) => {
+    const line = COMMENTARY_LINES[hashSeed(`${player}|${moveDetails}`) % COMMENTARY_LINES.length];
+    return rootValue === null ? line : `${line} Output reads ${rootValue}.`;
+  },
+
+  // First gate in hand into the first open slot; discard on a full board
+  getAIMove: async ({ board, hand }) => {
+    const slot = board.find(n => n.gate === null);
+    const gate = hand.find(isGateCard);
+    if (!slot || !gate) {
+      return { actionType: 'DISCARD', reasoning: 'Mock: nothing to place.' };
+    }
+    return { actionType: 'PLACE', slotId: slot.id, gateType: gate, reasoning: 'Mock: first gate, first open slot.' };
+  },
+
+  // Cards fall back to their built-in look
+  generateGateImage: async () => null,
+});
@@ -0,0 +1,161 @@
+import { ClientMessage, GameAction, OnlineGameOptions, OnlineView, PlayerId, ServerMessage } from '../types';
+
+// Browser side of online play: one WebSocket to the relay server, which
+// owns the game. Dropped connections are retried with backoff and the seat
+// is taken back with the session token, after which the server resends the
+// current view.
+
+const SESSION_KEY = 'logic-lock:online-session';
+const RETRY_DELAYS_MS = [500, 1000, 2000, 4000, 8000]; // The last one repeats
+
+// The relay closes a connection with this code when another connection
+// takes the same seat, e.g. the game was reopened in a second tab
+export const SEAT_TAKEN_CLOSE_CODE = 4000;
+
+export const defaultRelayUrl = (): string => `ws://${location.hostname || 'localhost'}:8787`;
+
+export type OnlineStatus = 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' | 'CLOSED';
+
+// Enough to take a seat back, kept per tab so a reload can rejoin
+export interface OnlineSession {
+  url: string;
+  room: string;
+  token: string;
+  you: PlayerId;
+}
+
+export interface OnlineHandlers {
+  onStatus: (status: OnlineStatus) => void;
+  onJoined: (session: OnlineSession) => void;
+  onView: (view: OnlineView) => void;
+  onError: (message: string) => void;
+}
+
+export interface OnlineClient {
+  createRoom: (options: OnlineGameOptions) => void;
+  joinRoom: (room: string) => void;
+  resume: (session: OnlineSession) => void;
+  sendAction: (action: GameAction) => void;
+  rematch: () => void;
+  leave: () => void; // Gives the seat up and closes the connection
+}
+
+export const loadOnlineSession = (): OnlineSession | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+const saveOnlineSession = (session: OnlineSession | null) => {
+  try {
+    if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Storage disabled; a reload just can't rejoin
+  }
+};
+
+export const createOnlineClient = (url: string, handlers: OnlineHandlers): OnlineClient => {
+  let socket: WebSocket | null = null;
+  let session: OnlineSession | null = null;
+  let pending: ClientMessage | null = null; // Sent once the socket opens
+  let resuming = false; // A RESUME is waiting for its answer
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const sendResume = (ws: WebSocket, saved: OnlineSession) => {
+    resuming = true;
+    ws.send(JSON.stringify({ type: 'RESUME', room: saved.room, token: saved.token }));
+  };
+
+  const connect = () => {
+    handlers.onStatus(attempt === 0 ? 'CONNECTING' : 'RECONNECTING');
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      handlers.onStatus('CONNECTED');
+      // After a drop, taking the seat back comes before anything else
+      if (session) sendResume(ws, session);
+      else if (pending) ws.send(JSON.stringify(pending));
+      pending = null;
+    };
+
+    ws.onmessage = event => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'JOINED') {
+        resuming = false;
+        session = { url, room: message.room, token: message.token, you: message.you };
+        saveOnlineSession(session);
+        handlers.onJoined(session);
+      } else if (message.type === 'VIEW') {
+        handlers.onView(message.view);
+      } else if (message.type === 'ERROR') {
+        // The room is gone or the seat was given up: stop trying to rejoin it
+        if (resuming) {
+          resuming = false;
+          session = null;
+          saveOnlineSession(null);
+        }
+        handlers.onError(message.message);
+      }
+    };
+
+    ws.onclose = event => {
+      if (socket !== ws || closed) return;
+      socket = null;
+      if (event.code === SEAT_TAKEN_CLOSE_CODE) {
+        // Retrying would only take the seat back from the newer connection
+        closed = true;
+        session = null;
+        handlers.onStatus('CLOSED');
+        return;
+      }
+      handlers.onStatus('RECONNECTING');
+      retryTimer = setTimeout(connect, RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length - 1)]);
+      attempt++;
+    };
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    } else if (message.type === 'ACTION') {
+      handlers.onError('Not connected to the server. Reconnecting...');
+    } else {
+      pending = message;
+    }
+  };
+
+  connect();
+
+  return {
+    createRoom: options => send({ type: 'CREATE_ROOM', options }),
+    joinRoom: room => send({ type: 'JOIN_ROOM', room: room.trim().toUpperCase() }),
+    resume: saved => {
+      session = saved;
+      if (socket?.readyState === WebSocket.OPEN) sendResume(socket, saved);
+    },
+    sendAction: action => send({ type: 'ACTION', action }),
+    rematch: () => send({ type: 'REMATCH' }),
+    leave: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'LEAVE' }));
+      socket?.close();
+      socket = null;
+      session = null;
+      saveOnlineSession(null);
+      handlers.onStatus('CLOSED');
+    },
+  };
+};
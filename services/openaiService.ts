@@ -0,0 +1,70 @@
+import { GateType, AIMove, LLMProvider, LLMSettings } from "../types";
+import { SYSTEM_INSTRUCTION_COMMENTARY, SYSTEM_INSTRUCTION_AI, AI_MOVE_FORMAT, buildCommentaryPrompt, buildMovePrompt, GATE_IMAGE_PROMPTS } from "./llmPrompts";
+import { pick } from "./jsonService";
+
+// Any OpenAI-compatible HTTP endpoint: OpenAI itself, llama.cpp's server,
+// Ollama, vLLM and friends. Only the chat completions and image generation
+// routes are used.
+export const createOpenAIProvider = (settings: LLMSettings): LLMProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: object): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  const chat = async (system: string, prompt: string, extra: object = {}): Promise<string> => {
+    const data = await post('/chat/completions', {
+      model: settings.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+      ...extra,
+    });
+    const content = pick(data, 'choices', 0, 'message', 'content');
+    return typeof content === 'string' ? content : '';
+  };
+
+  return {
+    getCommentary: (player, moveDetails, rootValue) =>
+      chat(SYSTEM_INSTRUCTION_COMMENTARY, buildCommentaryPrompt(player, moveDetails, rootValue), { max_tokens: 50 }),
+
+    getAIMove: async (request) => {
+      const text = await chat(SYSTEM_INSTRUCTION_AI + AI_MOVE_FORMAT, buildMovePrompt(request), {
+        response_format: { type: 'json_object' },
+      });
+      // Local models sometimes wrap the object in prose or code fences
+      const json = text.match(/\{[\s\S]*\}/)?.[0];
+      if (!json) {
+        throw new Error("No JSON returned from AI");
+      }
+      return JSON.parse(json) as AIMove;
+    },
+
+    generateGateImage: async (gateType: GateType) => {
+      if (!settings.imageModel) return null;
+      const data = await post('/images/generations', {
+        model: settings.imageModel,
+        prompt: GATE_IMAGE_PROMPTS[gateType],
+        n: 1,
+        size: '256x256',
+        response_format: 'b64_json',
+      });
+      const b64 = pick(data, 'data', 0, 'b64_json');
+      if (typeof b64 === 'string' && b64) return `data:image/png;base64,${b64}`;
+      const url = pick(data, 'data', 0, 'url');
+      return typeof url === 'string' ? url : null;
+    },
+  };
+};
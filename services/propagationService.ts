@@ -0,0 +1,97 @@
+import { BoardNode, GateType } from '../types';
+import { evaluateBoard, GATE_ARITY, topologicalOrder } from './logicService';
+
+// Timed evaluation of the circuit, for animating signals as they travel.
+//
+// evaluateBoard settles every slot at once. Here each gate also takes a
+// delay to switch, so a slot's output arrives after the latest of the
+// sources it reads plus its own delay. The result is a plain list of
+// events in time order, one per input or slot whose value changes, which
+// the board animates and replays or tests can step through with frameAt.
+
+// Switching time per gate in ms. Inverting gates are a single transistor
+// stage and the quickest; XORs and the three-input gates are the slowest.
+export type GateDelays = Record<GateType, number>;
+
+export const DEFAULT_GATE_DELAYS: GateDelays = {
+  [GateType.BUFFER]: 90,
+  [GateType.NOT]: 60,
+  [GateType.NAND]: 80,
+  [GateType.NOR]: 80,
+  [GateType.AND]: 110,
+  [GateType.OR]: 110,
+  [GateType.XOR]: 160,
+  [GateType.XNOR]: 160,
+  [GateType.AND3]: 140,
+  [GateType.OR3]: 140,
+  [GateType.MAJ3]: 180,
+};
+
+// Slow-motion playback for teaching stretches every delay by this much
+export const SLOW_MOTION_FACTOR = 8;
+
+export interface PropagationEvent {
+  time: number; // ms after the change at the inputs
+  kind: 'INPUT' | 'SLOT';
+  index: number; // Input index or slot id
+  value: 0 | 1 | null;
+}
+
+// What the board shows at one moment
+export interface SignalFrame {
+  inputs: (0 | 1)[];
+  values: (0 | 1 | null)[]; // Per slot
+}
+
+export interface PropagationTimeline {
+  initial: SignalFrame; // Before the change
+  events: PropagationEvent[]; // By time, then inputs before slots, then index
+  duration: number; // ms until the last event
+}
+
+// Events taking the board from `before` (by default a cold circuit with
+// every slot unknown) to the settled evaluation of `board` and `inputs`.
+// Slots that end up with the value they had produce no event.
+export const simulatePropagation = (
+  board: BoardNode[],
+  inputs: (0 | 1)[],
+  options: { delays?: GateDelays; before?: { board: BoardNode[]; inputs: (0 | 1)[] } } = {}
+): PropagationTimeline => {
+  const delays = options.delays ?? DEFAULT_GATE_DELAYS;
+  const initial: SignalFrame = options.before
+    ? { inputs: options.before.inputs, values: options.before.board.map(n => n.value) }
+    : { inputs, values: board.map(() => null) };
+  const settled = evaluateBoard(board, inputs);
+
+  const events: PropagationEvent[] = [];
+  inputs.forEach((value, index) => {
+    if (!options.before || value !== initial.inputs[index]) events.push({ time: 0, kind: 'INPUT', index, value });
+  });
+
+  // Arrival time of each slot's output; an empty slot has nothing to wait for
+  const arrival: number[] = board.map(() => 0);
+  topologicalOrder(board).forEach(id => {
+    const { gate, sources } = board[id];
+    if (gate === null) return;
+    const latest = Math.max(0, ...sources.slice(0, GATE_ARITY[gate]).map(s => (s.kind === 'SLOT' ? arrival[s.index] : 0)));
+    arrival[id] = latest + delays[gate];
+  });
+  settled.forEach(node => {
+    if (node.value !== initial.values[node.id]) events.push({ time: arrival[node.id], kind: 'SLOT', index: node.id, value: node.value });
+  });
+
+  events.sort((a, b) => a.time - b.time || (a.kind === b.kind ? a.index - b.index : a.kind === 'INPUT' ? -1 : 1));
+  return { initial, events, duration: events.length ? events[events.length - 1].time : 0 };
+};
+
+// The board as it stands `time` ms into the timeline
+export const frameAt = (timeline: PropagationTimeline, time: number): SignalFrame => {
+  const inputs = [...timeline.initial.inputs];
+  const values = [...timeline.initial.values];
+  for (const event of timeline.events) {
+    if (event.time > time) break;
+    if (event.kind === 'INPUT') inputs[event.index] = event.value as 0 | 1;
+    else values[event.index] = event.value;
+  }
+  return { inputs, values };
+};
@@ -0,0 +1,108 @@
+import { Puzzle } from '../types';
+import { parsePuzzle } from './puzzleService';
+
+// Built-in puzzles, written in the same JSON format players can upload.
+// Slots use the board's index order (0 is the root); draws are listed in
+// the order they come off the deck.
+const RAW_PUZZLES = [
+  {
+    id: 'first-contact',
+    title: 'First Contact',
+    description: 'The root is fixed. Wire both halves so it lets the signal through.',
+    depth: 2,
+    inputs: [1, 0, 1, 1],
+    gates: [{ slot: 0, gate: 'AND' }],
+    hand: ['AND', 'NOR', 'XOR'],
+    target: 1,
+    moveLimit: 2,
+  },
+  {
+    id: 'inverted',
+    title: 'Inverted',
+    description: 'Pull the output low. One half is already decided for you.',
+    depth: 2,
+    inputs: [0, 0, 1, 1],
+    gates: [{ slot: 1, gate: 'NOR' }],
+    hand: ['OR', 'AND', 'OR'],
+    draws: ['XOR', 'NAND'],
+    target: 0,
+    moveLimit: 3,
+  },
+  {
+    id: 'rewire',
+    title: 'Rewire',
+    description: 'The circuit is complete but open. Unlocked gates can be replaced.',
+    depth: 2,
+    inputs: [1, 1, 0, 0],
+    gates: [
+      { slot: 0, gate: 'XOR' },
+      { slot: 1, gate: 'AND', locked: false },
+      { slot: 2, gate: 'OR', locked: false },
+    ],
+    hand: ['XOR', 'NOR'],
+    target: 0,
+    moveLimit: 1,
+  },
+  {
+    id: 'half-open',
+    title: 'Half Open',
+    description: 'Four empty slots and an AND at the top. Every branch has to carry a 1.',
+    depth: 3,
+    inputs: [1, 0, 0, 0, 1, 1, 0, 1],
+    gates: [
+      { slot: 0, gate: 'AND' },
+      { slot: 1, gate: 'OR' },
+      { slot: 5, gate: 'XOR' },
+    ],
+    hand: ['AND', 'AND', 'OR'],
+    draws: ['XOR', 'NOR', 'AND'],
+    target: 1,
+    moveLimit: 4,
+  },
+  {
+    id: 'short-circuit',
+    title: 'Short Circuit',
+    description: 'Nothing in your hand can help. Know when to throw it away.',
+    depth: 3,
+    inputs: [1, 1, 1, 1, 1, 1, 0, 1],
+    gates: [
+      { slot: 0, gate: 'NOR' },
+      { slot: 3, gate: 'AND' },
+      { slot: 4, gate: 'AND' },
+      { slot: 5, gate: 'OR' },
+      { slot: 6, gate: 'OR' },
+    ],
+    hand: ['NOR', 'NOR', 'XOR'],
+    draws: ['NAND', 'NOR', 'OR'],
+    target: 0,
+    moveLimit: 3,
+  },
+  {
+    id: 'deep-lock',
+    title: 'Deep Lock',
+    description: 'A four-level vault with one loose gate near the top.',
+    depth: 4,
+    inputs: [1, 0, 1, 1, 0, 0, 1, 0, 1, 1, 0, 1, 0, 0, 1, 1],
+    gates: [
+      { slot: 0, gate: 'XOR' },
+      { slot: 1, gate: 'AND' },
+      { slot: 2, gate: 'OR', locked: false },
+      { slot: 3, gate: 'OR' },
+      { slot: 5, gate: 'NAND' },
+      { slot: 7, gate: 'XOR' },
+      { slot: 8, gate: 'AND' },
+      { slot: 9, gate: 'NOR' },
+      { slot: 10, gate: 'XOR' },
+      { slot: 11, gate: 'AND' },
+      { slot: 12, gate: 'XOR' },
+      { slot: 13, gate: 'NOR' },
+      { slot: 14, gate: 'AND' },
+    ],
+    hand: ['AND', 'NOR', 'NAND'],
+    draws: ['OR', 'XOR', 'AND', 'NAND'],
+    target: 1,
+    moveLimit: 3,
+  },
+];
+
+export const BUILTIN_PUZZLES: Puzzle[] = RAW_PUZZLES.map(parsePuzzle);
@@ -0,0 +1,274 @@
+import { BoardNode, Card, GameAction, GameState, GateType, Puzzle, PuzzleGate } from '../types';
+import { createGame, createEmptyBoard, reduce, HAND_SIZE } from './gameEngine';
+import { evaluateBoard, fitsSlot, GATE_ARITY, getInputCount, MIN_DEPTH, MAX_DEPTH } from './logicService';
+import { countCards } from './deckService';
+import { isBit, isCount, isObject, isOneOf, pick } from './jsonService';
+
+// "Crack the lock" puzzles: fixed inputs, pre-placed gates, a fixed hand and
+// draw order, a target root value and a move limit. They run on the normal
+// engine with GameState.puzzle set.
+
+const GATES = Object.values(GateType);
+const PROGRESS_KEY = 'logic-lock:puzzle-progress';
+
+export interface PuzzleProgress {
+  completed: boolean;
+  bestMoves: number | null; // Fewest moves a solve took
+}
+
+export interface PuzzleSolution {
+  actions: GameAction[];
+  length: number;
+}
+
+export interface PuzzleCheck {
+  puzzle: Puzzle;
+  solution: PuzzleSolution; // A shortest one; its length is the puzzle's par
+}
+
+// Check a puzzle file's inputs, preset gates, hand and limits against its board
+export const parsePuzzle = (data: unknown): Puzzle => {
+  if (!isObject(data)) throw new Error('Puzzle must be a JSON object.');
+  const { id, title, description, depth, inputs, hand, draws, target, moveLimit } = data;
+  if (typeof id !== 'string' || !id) throw new Error('Puzzle needs an id.');
+  const label = `Puzzle "${id}"`;
+  if (typeof title !== 'string') throw new Error(`${label} needs a title.`);
+  if (typeof depth !== 'number' || !Number.isInteger(depth) || depth < MIN_DEPTH || depth > MAX_DEPTH) {
+    throw new Error(`${label}: depth must be between ${MIN_DEPTH} and ${MAX_DEPTH}.`);
+  }
+  const inputCount = getInputCount(depth);
+  if (!Array.isArray(inputs) || inputs.length !== inputCount || !inputs.every(isBit)) {
+    throw new Error(`${label}: inputs must be ${inputCount} values of 0 or 1.`);
+  }
+
+  const board = createEmptyBoard(depth);
+  const boardSize = board.length;
+  const gates = data.gates ?? [];
+  if (!Array.isArray(gates)) throw new Error(`${label}: gates must be a list.`);
+  const usedSlots = new Set<number>();
+  const presets = gates.map((g: unknown): PuzzleGate => {
+    const slot = pick(g, 'slot');
+    const gate = pick(g, 'gate');
+    if (typeof slot !== 'number' || !Number.isInteger(slot) || slot < 0 || slot >= boardSize) {
+      throw new Error(`${label}: gate slot ${slot} is not on a depth ${depth} board.`);
+    }
+    if (usedSlots.has(slot)) throw new Error(`${label}: slot ${slot} is given twice.`);
+    if (!isOneOf(GATES, gate)) throw new Error(`${label}: unknown gate ${gate} in slot ${slot}.`);
+    if (!fitsSlot(gate, board[slot])) throw new Error(`${label}: ${gate} does not fit slot ${slot}.`);
+    usedSlots.add(slot);
+    return { slot, gate, locked: pick(g, 'locked') !== false };
+  });
+
+  const isGateList = (v: unknown): v is GateType[] => Array.isArray(v) && v.every(g => isOneOf(GATES, g));
+  if (!isGateList(hand) || hand.length === 0 || hand.length > HAND_SIZE) {
+    throw new Error(`${label}: hand must hold 1-${HAND_SIZE} gates.`);
+  }
+  if (draws !== undefined && !isGateList(draws)) throw new Error(`${label}: draws must be a list of gates.`);
+  if (!isBit(target)) throw new Error(`${label}: target must be 0 or 1.`);
+  if (typeof moveLimit !== 'number' || !Number.isInteger(moveLimit) || moveLimit < 1) throw new Error(`${label}: moveLimit must be a positive integer.`);
+
+  return {
+    id,
+    title,
+    description: typeof description === 'string' ? description : undefined,
+    depth,
+    inputs,
+    gates: presets,
+    hand,
+    draws: isGateList(draws) ? draws : [],
+    target,
+    moveLimit,
+  };
+};
+
+export const createPuzzleGame = (puzzle: Puzzle): GameState => {
+  const base = createGame({ isAI: false, depth: puzzle.depth, seed: `PUZZLE-${puzzle.id}` });
+  const draws = puzzle.draws ?? [];
+
+  const board = base.board.map(node => {
+    const preset = puzzle.gates.find(g => g.slot === node.id);
+    return preset ? { ...node, gate: preset.gate, locked: preset.locked !== false } : node;
+  });
+
+  return {
+    ...base,
+    inputs: puzzle.inputs,
+    board: evaluateBoard(board, puzzle.inputs),
+    players: {
+      P1: { ...base.players.P1, name: 'Player 1', targetValue: puzzle.target, hand: puzzle.hand },
+      P2: { ...base.players.P2, name: 'The Lock', targetValue: puzzle.target === 1 ? 0 : 1, hand: [] },
+    },
+    // Fixed draw order: the first draw is the top (last) card of the pile
+    deck: {
+      composition: countCards([...puzzle.hand, ...draws]),
+      emptyRule: 'END_GAME',
+      drawPile: [...draws].reverse(),
+      discardPile: [],
+    },
+    puzzle: { id: puzzle.id, title: puzzle.title, target: puzzle.target, moveLimit: puzzle.moveLimit },
+  };
+};
+
+// Most moves the solver may try before it gives up on a proof. An
+// open board with a generous move limit branches too widely to search
+// exhaustively, so such puzzles are rejected as unproven.
+export const SOLVE_NODE_BUDGET = 50_000;
+
+export type SolveResult =
+  | { status: 'SOLVED'; solution: PuzzleSolution }
+  | { status: 'UNSOLVABLE' }
+  | { status: 'UNKNOWN' }; // The budget ran out first
+
+// Fewest placements before `id` can output a value. Any gate reads at
+// least its first source, so an empty slot costs one move plus that
+// source; an unlocked gate may be swapped the same way. Puzzle boards are
+// trees, so the costs of separate branches add up.
+const movesToSettle = (board: BoardNode[], id: number): number => {
+  const node = board[id];
+  if (node.value !== null) return 0;
+  const first = node.sources[0];
+  const viaSwap = 1 + (first?.kind === 'SLOT' ? movesToSettle(board, first.index) : 0);
+  if (node.gate === null) return viaSwap;
+  const wired = node.sources
+    .slice(0, GATE_ARITY[node.gate])
+    .reduce((sum, s) => sum + (s.kind === 'SLOT' ? movesToSettle(board, s.index) : 0), 0);
+  return node.locked ? wired : Math.min(wired, viaSwap);
+};
+
+// Breadth-first search over every placement and discard, so the first win
+// found is a shortest solution. Positions that cannot settle the root
+// within the moves left are skipped.
+export const solvePuzzle = (puzzle: Puzzle, budget = SOLVE_NODE_BUDGET): SolveResult => {
+  const start = createPuzzleGame(puzzle);
+  const key = (s: GameState) =>
+    `${s.board.map(n => n.gate ?? '-').join(',')}|${[...s.players.P1.hand].sort().join(',')}|${s.deck.drawPile.length}`;
+
+  let frontier: { state: GameState; actions: GameAction[] }[] = [{ state: start, actions: [] }];
+  const seen = new Set([key(start)]);
+  let tried = 0;
+
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+    for (const { state, actions } of frontier) {
+      const hand = state.players.P1.hand;
+      const candidates: GameAction[] = [{ type: 'DISCARD', playerId: 'P1' }];
+      state.board.forEach(node => {
+        const tried = new Set<Card>();
+        hand.forEach((gate, handIndex) => {
+          if (tried.has(gate)) return;
+          tried.add(gate);
+          candidates.push({ type: 'PLACE', playerId: 'P1', slotId: node.id, handIndex });
+        });
+      });
+
+      for (const action of candidates) {
+        if (++tried > budget) return { status: 'UNKNOWN' };
+        const result = reduce(state, action);
+        if (result === state) continue; // Illegal (e.g. locked slot)
+        const path = [...actions, action];
+        if (result.winner === 'P1') return { status: 'SOLVED', solution: { actions: path, length: path.length } };
+        if (result.winner) continue;
+        if (result.turnCount + movesToSettle(result.board, 0) > puzzle.moveLimit) continue;
+        const k = key(result);
+        if (seen.has(k)) continue;
+        seen.add(k);
+        next.push({ state: result, actions: path });
+      }
+    }
+    frontier = next;
+  }
+  return { status: 'UNSOLVABLE' };
+};
+
+// Parse a puzzle and prove it can be solved. Throws unless a solution is
+// found within the move limit and the search budget.
+export const validatePuzzle = (data: unknown): PuzzleCheck => {
+  const puzzle = parsePuzzle(data);
+  if (puzzle.target === createPuzzleGame(puzzle).board[0].value) {
+    throw new Error(`Puzzle "${puzzle.id}" is already solved before the first move.`);
+  }
+  const result = solvePuzzle(puzzle);
+  if (result.status === 'UNSOLVABLE') {
+    throw new Error(`Puzzle "${puzzle.id}" cannot be solved within ${puzzle.moveLimit} moves.`);
+  }
+  if (result.status === 'UNKNOWN') {
+    throw new Error(`Puzzle "${puzzle.id}" could not be proved solvable within ${SOLVE_NODE_BUDGET} tried moves; tighten its move limit or pre-place more gates.`);
+  }
+  return { puzzle, solution: result.solution };
+};
+
+// ---------------- Off the main thread ----------------
+
+// Messages to and from puzzleWorker
+export interface PuzzleCheckRequest {
+  id: number;
+  data: unknown;
+}
+export type PuzzleCheckReply = { id: number; check: PuzzleCheck } | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextCheckId = 0;
+const pendingChecks = new Map<number, (reply: PuzzleCheckReply) => void>();
+
+// validatePuzzle in a worker. Checks queue up and settle in the order made.
+export const checkPuzzle = (data: unknown): Promise<PuzzleCheck> => {
+  // No worker support: show the list as CHECKING before the first proof
+  if (typeof Worker === 'undefined') {
+    return new Promise(resolve => setTimeout(resolve, 0)).then(() => validatePuzzle(data));
+  }
+  if (!worker) {
+    worker = new Worker(new URL('./puzzleWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<PuzzleCheckReply>) => {
+      pendingChecks.get(e.data.id)?.(e.data);
+      pendingChecks.delete(e.data.id);
+    };
+    // A crashed worker fails every pending check; the next one starts afresh
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      pendingChecks.forEach((settle, id) => settle({ id, error: `Puzzle checker crashed: ${e.message || 'unknown error'}` }));
+      pendingChecks.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  const id = nextCheckId++;
+  const request: PuzzleCheckRequest = { id, data };
+  return new Promise((resolve, reject) => {
+    pendingChecks.set(id, reply => ('check' in reply ? resolve(reply.check) : reject(new Error(reply.error))));
+    worker!.postMessage(request);
+  });
+};
+
+// ---------------- Completion tracking ----------------
+
+// Stored progress, skipping any entry that isn't a PuzzleProgress
+export const loadPuzzleProgress = (): Record<string, PuzzleProgress> => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+  if (!isObject(stored)) return {};
+  const progress: Record<string, PuzzleProgress> = {};
+  Object.entries(stored).forEach(([id, entry]) => {
+    const bestMoves = pick(entry, 'bestMoves');
+    const completed = pick(entry, 'completed');
+    if (typeof completed === 'boolean' && (bestMoves === null || isCount(bestMoves))) {
+      progress[id] = { completed, bestMoves: isCount(bestMoves) ? bestMoves : null };
+    }
+  });
+  return progress;
+};
+
+export const recordPuzzleSolved = (puzzleId: string, moves: number): Record<string, PuzzleProgress> => {
+  const progress = loadPuzzleProgress();
+  const best = progress[puzzleId]?.bestMoves;
+  progress[puzzleId] = { completed: true, bestMoves: best == null ? moves : Math.min(best, moves) };
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage full or disabled; progress just won't persist
+  }
+  return progress;
+};
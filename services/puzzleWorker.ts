@@ -0,0 +1,13 @@
+import { PuzzleCheckReply, PuzzleCheckRequest, validatePuzzle } from './puzzleService';
+
+// Runs checkPuzzle's proofs off the main thread
+self.onmessage = (e: MessageEvent<PuzzleCheckRequest>) => {
+  const { id, data } = e.data;
+  let reply: PuzzleCheckReply;
+  try {
+    reply = { id, check: validatePuzzle(data) };
+  } catch (err) {
+    reply = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(reply);
+};
@@ -0,0 +1,48 @@
+// Seedable pseudo random numbers.
+//
+// Everything random in a match (inputs, opening hands, draws) comes from one
+// mulberry32 stream. The stream position is a single 32-bit integer that lives
+// in GameState, so a match can be replayed exactly from its seed.
+
+// Returns a float in [0, 1), like Math.random
+export type Rng = () => number;
+
+export interface SeededRng {
+  next: Rng;
+  getState: () => number; // Position in the stream, to store back into state
+}
+
+// FNV-1a hash, turns a seed string into the initial 32-bit stream state
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createRng = (state: number): SeededRng => {
+  let s = state >>> 0;
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return { next, getState: () => s };
+};
+
+// Seeds are short and human friendly so they can be read out in bug reports
+export const normalizeSeed = (seed: string): string => seed.trim().toUpperCase();
+
+export const randomSeed = (): string => Math.random().toString(36).slice(2, 8).toUpperCase();
+
+// Same seed for everyone on a given (local) calendar date
+export const dailySeed = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `DAILY-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const isDailySeed = (seed: string): boolean => seed.startsWith('DAILY-');
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction } from '../types';
+import { createGame } from './gameEngine';
+import { commitAction, createUndoStack, undo, UndoStack } from './undoService';
+import { createSave, parseSave, restoreSave, SAVE_VERSION, SavedMatch } from './saveService';
+
+const OPTIONS = { isAI: false, seed: 'SAVE' };
+
+// Three moves played, the last one undone
+const playedStack = (): UndoStack => {
+  let stack = createUndoStack(createGame(OPTIONS));
+  const moves: GameAction[] = [
+    { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 0 },
+    { type: 'DISCARD', playerId: 'P2' },
+    { type: 'PLACE', playerId: 'P1', slotId: 4, handIndex: 1 },
+  ];
+  moves.forEach(action => {
+    stack = commitAction(stack, action);
+  });
+  return undo(stack);
+};
+
+// A save as it comes back out of storage
+const stored = (save: SavedMatch): unknown => JSON.parse(JSON.stringify(save));
+
+describe('parseSave and restoreSave', () => {
+  it('rebuild the undo stack, redo entries included', () => {
+    const stack = playedStack();
+    const save = createSave('slot', 'Slot', stack, [{ turn: 0, text: 'Match started.' }], OPTIONS);
+    const restored = restoreSave(parseSave(stored(save)));
+    expect(restored.cursor).toBe(2);
+    expect(restored.states).toHaveLength(4);
+    expect(restored.states.map(s => s.board)).toEqual(stack.states.map(s => s.board));
+    expect(restored.states.map(s => s.players)).toEqual(stack.states.map(s => s.players));
+  });
+
+  it('keep the name, commentary and options', () => {
+    const save = parseSave(stored(createSave('slot', 'Slot', playedStack(), [{ turn: 0, text: 'Match started.' }], OPTIONS)));
+    expect(save.name).toBe('Slot');
+    expect(save.commentary).toEqual([{ turn: 0, text: 'Match started.' }]);
+    expect(save.options).toEqual(OPTIONS);
+    expect(save.finished).toBe(false);
+  });
+
+  it('reject versions this build does not know', () => {
+    const save = { ...createSave('slot', 'Slot', playedStack(), [], OPTIONS), version: SAVE_VERSION + 1 };
+    expect(() => parseSave(stored(save))).toThrow(`Unsupported save version ${SAVE_VERSION + 1} (expected 1-${SAVE_VERSION}).`);
+    expect(() => parseSave({ ...save, version: 0 })).toThrow(/Unsupported save version 0/);
+  });
+
+  it('reject a damaged opening position', () => {
+    const save = stored(createSave('slot', 'Slot', playedStack(), [], OPTIONS)) as SavedMatch;
+    expect(() => parseSave({ ...save, opening: { ...save.opening, inputs: [1, 0] } })).toThrow('Opening position has an invalid inputs.');
+    expect(() => parseSave({ ...save, opening: { ...save.opening, currentPlayer: 'P3' } })).toThrow('Opening position has an invalid player to move.');
+    expect(() => parseSave({ ...save, opening: null })).toThrow('Opening position must be an object.');
+  });
+
+  it('reject an undo position past the last action', () => {
+    const save = stored(createSave('slot', 'Slot', playedStack(), [], OPTIONS)) as SavedMatch;
+    expect(() => parseSave({ ...save, cursor: 4 })).toThrow('Save has an invalid undo position.');
+  });
+
+  it('reject values that are not saves', () => {
+    expect(() => parseSave('save')).toThrow('Save must be an object.');
+    expect(() => parseSave({ version: SAVE_VERSION })).toThrow('Save has no id or name.');
+  });
+
+  it('refuse to restore a move the engine no longer accepts', () => {
+    const save = parseSave(stored(createSave('slot', 'Slot', playedStack(), [], OPTIONS)));
+    const tampered: SavedMatch = { ...save, actions: [{ type: 'PLACE', playerId: 'P2', slotId: 3, handIndex: 0 }] };
+    expect(() => restoreSave(tampered)).toThrow("Saved move 1 is not legal: It is P1's turn, not P2's.");
+  });
+});
@@ -0,0 +1,255 @@
+import { AIEngine, Card, CommentaryLine, GameAction, GameEndReason, GameState, GateType, MoveRecord, PlayerId, SolverLevel } from '../types';
+import { GameOptions, reduce, validateAction } from './gameEngine';
+import { UndoStack } from './undoService';
+import { createBoard, parseLayout } from './layoutService';
+import { DECK_EMPTY_RULES } from './deckService';
+import { parseTimeControl } from './clockService';
+import { CARD_TYPES } from './actionCardService';
+import { isBit, isCount, isObject, isOneOf } from './jsonService';
+
+// Saved matches in localStorage: an autosave written after every move, plus
+// any number of named slots.
+//
+// A save keeps the opening position and the actions played from it, not
+// every position. Replaying them through the engine rebuilds the whole undo
+// stack, draws included, since each state carries its place in the seeded
+// random stream. Online games (the server owns them) and puzzles are not saved.
+
+// Bump when the shape of SavedMatch (or of the GameState in it) changes, and
+// add a step to migrateSave
+export const SAVE_VERSION = 1;
+
+export const AUTOSAVE_ID = 'autosave';
+const SAVES_KEY = 'logic-lock-saves';
+// Saves that failed to load are moved here rather than deleted, so a later
+// fix to a parser or migration can still recover them
+const UNREADABLE_SAVES_KEY = 'logic-lock-saves-unreadable';
+
+export interface SavedMatch {
+  version: number;
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  opening: GameState; // First position of the undo stack
+  actions: GameAction[]; // Everything played from it, including undone moves that can still be redone
+  cursor: number; // Position in the undo stack, as a number of actions
+  finished: boolean; // The saved position is game over; finished autosaves aren't offered to continue
+  commentary: CommentaryLine[];
+  options: GameOptions; // For PLAY AGAIN after resuming
+}
+
+// The action that produced a move. A penalty for running out of time was
+// dispatched as TIMEOUT, which the engine resolves (with the same random
+// draw) into the recorded move.
+const dispatchedAction = ({ action }: MoveRecord): GameAction =>
+  action.timedOut ? { type: 'TIMEOUT', playerId: action.playerId } : action;
+
+export const createSave = (
+  id: string,
+  name: string,
+  stack: UndoStack,
+  commentary: CommentaryLine[],
+  options: GameOptions
+): SavedMatch => ({
+  version: SAVE_VERSION,
+  id,
+  name,
+  savedAt: new Date().toISOString(),
+  opening: stack.states[0],
+  actions: stack.states[stack.states.length - 1].moves.map(dispatchedAction),
+  cursor: stack.cursor,
+  finished: stack.states[stack.cursor].winner !== null,
+  commentary,
+  options,
+});
+
+const PLAYER_IDS: PlayerId[] = ['P1', 'P2'];
+const CARDS = CARD_TYPES as string[];
+const GATES = Object.values(GateType) as string[];
+const END_REASONS: GameEndReason[] = ['BOARD_FULL', 'DECK_EMPTY', 'MOVE_LIMIT', 'TIMEOUT'];
+const AI_ENGINES: AIEngine[] = ['CORTEX', 'SOLVER'];
+const SOLVER_LEVELS: SolverLevel[] = ['EASY', 'MEDIUM', 'HARD', 'PERFECT'];
+
+const isCardList = (v: unknown): v is Card[] => Array.isArray(v) && v.every(c => CARDS.includes(c));
+
+// Check every field of a saved opening, so a damaged save never reaches the board
+const parseGameState = (data: unknown): GameState => {
+  if (!isObject(data)) throw new Error('Opening position must be an object.');
+  const fail = (field: string) => new Error(`Opening position has an invalid ${field}.`);
+  const layout = parseLayout(data.layout);
+  const slots = createBoard(layout);
+
+  if (typeof data.seed !== 'string') throw fail('seed');
+  if (!Number.isFinite(data.rngState)) throw fail('random state');
+  const { board, inputs, players, deck, clock, peeks } = data;
+  if (
+    !Array.isArray(board) ||
+    board.length !== slots.length ||
+    !board.every((node: unknown, i) =>
+      isObject(node) &&
+      node.id === i &&
+      JSON.stringify(node.sources) === JSON.stringify(slots[i].sources) &&
+      (node.gate === null || GATES.includes(node.gate as string)) &&
+      (node.locked === undefined || typeof node.locked === 'boolean') &&
+      (node.value === null || isBit(node.value)))
+  ) {
+    throw fail('board');
+  }
+  if (!Array.isArray(inputs) || inputs.length !== layout.inputCount || !inputs.every(isBit)) throw fail('inputs');
+  if (!isObject(players)) throw fail('player list');
+  PLAYER_IDS.forEach(id => {
+    const player = players[id];
+    if (!isObject(player) || player.id !== id || typeof player.name !== 'string' || typeof player.color !== 'string' || !isBit(player.targetValue) || !isCardList(player.hand)) {
+      throw fail(`player ${id}`);
+    }
+  });
+  if (
+    !isObject(deck) ||
+    !isObject(deck.composition) ||
+    !CARDS.every(c => isCount((deck.composition as Record<string, unknown>)[c])) ||
+    !isOneOf(DECK_EMPTY_RULES, deck.emptyRule) ||
+    !isCardList(deck.drawPile) ||
+    !isCardList(deck.discardPile)
+  ) {
+    throw fail('deck');
+  }
+  if (!isOneOf(PLAYER_IDS, data.currentPlayer)) throw fail('player to move');
+  if (data.winner !== null && data.winner !== 'DRAW' && !isOneOf(PLAYER_IDS, data.winner)) throw fail('winner');
+  if (data.endReason !== null && !isOneOf(END_REASONS, data.endReason)) throw fail('end reason');
+  // Puzzles are never saved
+  if (data.puzzle !== null) throw fail('puzzle');
+  if (clock !== null) {
+    if (!isObject(clock) || !isObject(clock.remainingMs) || !PLAYER_IDS.every(id => Number.isFinite((clock.remainingMs as Record<string, unknown>)[id]))) {
+      throw fail('clock');
+    }
+    parseTimeControl(clock.control);
+  }
+  const flipped = data.flippedInputs;
+  if (!Array.isArray(flipped) || !flipped.every(i => isCount(i) && i < layout.inputCount) || new Set(flipped).size !== flipped.length) {
+    throw fail('list of flipped inputs');
+  }
+  if (!isObject(peeks) || !PLAYER_IDS.every(id => peeks[id] === null || (isObject(peeks[id]) && isCardList(peeks[id].hand) && isCount(peeks[id].turn)))) {
+    throw fail('peek');
+  }
+  if (!isCount(data.turnCount)) throw fail('turn count');
+  if (!Array.isArray(data.history) || !data.history.every(line => typeof line === 'string')) throw fail('history');
+  if (!Array.isArray(data.moves) || !data.moves.every(m => isObject(m) && isObject(m.action) && isCardList(m.hand))) throw fail('move list');
+  if (typeof data.isAI !== 'boolean' || !isOneOf(AI_ENGINES, data.aiEngine) || !isOneOf(SOLVER_LEVELS, data.aiLevel)) throw fail('opponent');
+
+  return { ...(data as unknown as GameState), layout };
+};
+
+// Upgrade an older save one version at a time
+const migrateSave = (data: Record<string, unknown>): Record<string, unknown> => {
+  // v1 is the first version. Each change to SavedMatch, BoardNode, Player or
+  // the rest of GameState adds a step here, e.g.
+  //   if (data.version === 1) data = { ...data, version: 2, ... };
+  return data;
+};
+
+// Check a stored save, upgrading it first if it is older than SAVE_VERSION
+export const parseSave = (raw: unknown): SavedMatch => {
+  if (!isObject(raw)) throw new Error('Save must be an object.');
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1 || (raw.version as number) > SAVE_VERSION) {
+    throw new Error(`Unsupported save version ${raw.version} (expected 1-${SAVE_VERSION}).`);
+  }
+  const data = migrateSave(raw);
+  if (typeof data.id !== 'string' || typeof data.name !== 'string') throw new Error('Save has no id or name.');
+  if (typeof data.savedAt !== 'string') throw new Error('Save has no timestamp.');
+  const opening = parseGameState(data.opening);
+  const { actions, cursor } = data;
+  if (!Array.isArray(actions) || !actions.every(a => isObject(a) && typeof a.type === 'string')) throw new Error('Save has no action list.');
+  if (!isCount(cursor) || cursor > actions.length) throw new Error('Save has an invalid undo position.');
+  if (typeof data.finished !== 'boolean') throw new Error('Save does not say whether the match is over.');
+  if (!isObject(data.options) || typeof data.options.isAI !== 'boolean') throw new Error('Save has no game options.');
+  const commentary = Array.isArray(data.commentary)
+    ? data.commentary.filter((c): c is CommentaryLine => isObject(c) && isCount(c.turn) && typeof c.text === 'string')
+    : [];
+  return { ...(data as unknown as SavedMatch), opening, commentary };
+};
+
+// Rebuild the undo stack by replaying every saved action.
+// Throws an Error if one of them is no longer legal.
+export const restoreSave = (save: SavedMatch): UndoStack => {
+  const states = [save.opening];
+  save.actions.forEach((action, i) => {
+    const state = states[i];
+    const error = validateAction(state, action);
+    if (error) throw new Error(`Saved move ${i + 1} is not legal: ${error.message}`);
+    states.push(reduce(state, action));
+  });
+  return { states, cursor: save.cursor };
+};
+
+// ---------------- Storage ----------------
+
+const readAll = (key = SAVES_KEY): Record<string, unknown> => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) ?? '{}');
+    return isObject(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+// Move a save out of the list without losing it
+const setAside = (id: string, data: unknown) => {
+  try {
+    localStorage.setItem(UNREADABLE_SAVES_KEY, JSON.stringify({ ...readAll(UNREADABLE_SAVES_KEY), [id]: data }));
+  } catch {
+    // Storage full or disabled: leave the save where it is
+    return;
+  }
+  deleteSave(id);
+};
+
+// Saves that parse and replay, newest first. Any other save is set aside
+// under its own key and described in `dropped`, so the player learns why it
+// is missing from the list.
+export const loadSaves = (): { saves: SavedMatch[]; dropped: string[] } => {
+  const saves: SavedMatch[] = [];
+  const dropped: string[] = [];
+  Object.entries(readAll()).forEach(([id, data]) => {
+    try {
+      const save = parseSave(data);
+      restoreSave(save);
+      saves.push(save);
+    } catch (err) {
+      const name = isObject(data) && typeof data.name === 'string' ? data.name : id;
+      dropped.push(`${name}: ${err instanceof Error ? err.message : 'unreadable'}`);
+      setAside(id, data);
+    }
+  });
+  saves.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  return { saves, dropped };
+};
+
+// Returns false if storage is full or disabled
+export const writeSave = (save: SavedMatch): boolean => {
+  try {
+    localStorage.setItem(SAVES_KEY, JSON.stringify({ ...readAll(), [save.id]: save }));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const deleteSave = (id: string) => {
+  const saves = readAll();
+  delete saves[id];
+  try {
+    localStorage.setItem(SAVES_KEY, JSON.stringify(saves));
+  } catch {
+    // Storage disabled; nothing was saved anyway
+  }
+};
+
+// A fresh id for a named slot
+export const newSaveId = (): string => `save-${Date.now().toString(36)}`;
+
+// Shown in the save list
+export const describeSave = (save: SavedMatch): string => {
+  const { isAI, aiEngine, aiLevel } = save.opening;
+  const opponent = isAI ? (aiEngine === 'SOLVER' ? `VS SOLVER (${aiLevel})` : 'VS CORTEX') : 'HOT-SEAT';
+  return `${opponent} · ${save.cursor} MOVES`;
+};
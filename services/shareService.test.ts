@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createGame, reduce } from './gameEngine';
+import { decodePosition, encodePosition, positionToState, sharePosition } from './shareService';
+
+// The example from the format description: a new depth 3 game with seed Q
+const NEW_GAME = '1.t3.11001101.-------..abd.abc.1.0.r6_6_4_3_3_0_0_0_0_0_0_0_0_0_0.Q';
+
+// NEW_GAME with one field swapped out
+const withField = (index: number, value: string) => {
+  const fields = NEW_GAME.split('.');
+  fields[index] = value;
+  return fields.join('.');
+};
+
+describe('decodePosition', () => {
+  it('reads a new game', () => {
+    const position = decodePosition(NEW_GAME);
+    expect(position.layout.id).toBe('tree-3');
+    expect(position.inputs).toEqual([1, 1, 0, 0, 1, 1, 0, 1]);
+    expect(position.gates.every(g => g.gate === null)).toBe(true);
+    expect(position.turn).toBe('P1');
+    expect(position.seed).toBe('Q');
+  });
+
+  it('round-trips a position from play', () => {
+    let game = createGame({ isAI: false, seed: 'SHARE' });
+    game = reduce(game, { type: 'PLACE', playerId: 'P1', slotId: 3, handIndex: 0 });
+    game = reduce(game, { type: 'DISCARD', playerId: 'P2' });
+    const position = decodePosition(encodePosition(sharePosition(game, false)));
+    const state = positionToState(position);
+    expect(state.board.map(n => n.gate)).toEqual(game.board.map(n => n.gate));
+    expect(state.players.P1.hand).toEqual(game.players.P1.hand);
+    expect(state.currentPlayer).toBe('P1');
+    expect(state.turnCount).toBe(2);
+  });
+
+  it('leaves the seed out when hands are hidden', () => {
+    const game = createGame({ isAI: false, seed: 'SHARE' });
+    const position = decodePosition(encodePosition(sharePosition(game, true)));
+    expect(position.hands).toEqual({ P1: 3, P2: 3 });
+    expect(position.seed).toBeNull();
+  });
+
+  it.each([
+    ['another version', NEW_GAME.replace(/^1\./, '9.'), 'Unsupported link version "9" (expected 1).'],
+    ['a cut-off link', NEW_GAME.split('.').slice(0, 6).join('.'), 'Link has 6 of 11 fields; it may have been cut off.'],
+    ['an unknown tree depth', withField(1, 't9'), 'Unknown tree depth "9" (expected 2-5).'],
+    ['an unknown layout', withField(1, 'bnowhere'), 'Unknown built-in layout "nowhere".'],
+    ['too few inputs', withField(2, '1100'), 'Inputs must be 8 bits, got "1100".'],
+    ['inputs that are not bits', withField(2, '11002101'), 'Inputs must be 8 bits, got "11002101".'],
+    ['a board of the wrong size', withField(3, '---'), 'Board has 3 slots; the layout has 7.'],
+    ['an unknown gate', withField(3, '---z---'), 'Slot 3 has unknown gate "z".'],
+    ['a gate that does not fit its slot', withField(3, '---i---'), 'AND3 does not fit slot 3, which has 2 sources.'],
+    ['an input that does not exist', withField(4, 'k'), 'Flipped input "k" does not exist.'],
+    ['an input flipped twice', withField(4, '22'), 'An input is flipped more than once.'],
+    ['an oversized hand', withField(5, 'abcd'), 'P1 hand has 4 cards (at most 3).'],
+    ['an unknown card', withField(6, 'ab~'), 'Unknown card "~".'],
+    ['a third player', withField(7, '3'), 'Turn must be 1 or 2, got "3".'],
+    ['an unknown empty rule', withField(9, 'x6_6_4_3_3_0_0_0_0_0_0_0_0_0_0'), 'Unknown empty-deck rule "x".'],
+    ['a short deck', withField(9, 'r6_6_4'), 'Deck must list 15 card counts.'],
+    ['an empty deck', withField(9, 'r0_0_0_0_0_0_0_0_0_0_0_0_0_0_0'), 'Deck is empty.'],
+    ['a seed that is not URL text', withField(10, '%E0%A4%A'), 'Seed is not valid URL text.'],
+  ])('rejects %s', (_, code, message) => {
+    expect(() => decodePosition(code)).toThrow(message);
+  });
+
+  it('rejects a deck that cannot fill the circuit', () => {
+    expect(() => decodePosition('1.c2_s1s2_i0_i1.01.---..ab.ab.1.0.r6_6_4_3_3_0_0_0_0_0_0_0_0_0_0.Q')).toThrow(
+      'Shared circuit: slot 1 has 1 source, and no gate in this deck fits it.'
+    );
+  });
+});
@@ -0,0 +1,273 @@
+import { Card, CircuitLayout, DeckComposition, DeckEmptyRule, GameState, GateType, PlayerId } from '../types';
+import { checkLayoutFitsDeck, createGame, HAND_SIZE } from './gameEngine';
+import { checkWinCondition, evaluateBoard, GATE_ARITY } from './logicService';
+import { parseLayout, treeLayout } from './layoutService';
+import { BUILTIN_LAYOUTS } from './layoutLibrary';
+import { CARD_TYPES } from './actionCardService';
+import { deckSize } from './deckService';
+
+// Positions as short, URL-safe codes, for links that open a game in a
+// spectator view or fork it into a new local game.
+//
+// A code is a list of fields separated by dots:
+//   version . layout . inputs . board . flipped . P1 hand . P2 hand . turn . turn count . deck . seed
+// e.g. 1.t3.11001101.-------..abd.abc.1.0.r6_6_4_3_3_0_0_0_0_0_0_0_0_0_0.Q for a new
+// depth 3 game with seed Q. Hands shared as -3 are redacted to their size.
+// Redacted links leave the seed empty too, since the seed alone rebuilds
+// both hands and the draw pile; without it a position can be spectated but
+// not forked. Online games have no seed on the client, so their links are
+// always of this kind.
+//
+// Only what is on the table is shared: the move list, clocks and peeks are
+// not, so a fork starts a fresh untimed hot-seat game from the position.
+
+export const SHARE_VERSION = 1;
+const SHARE_PARAM = 'position';
+
+const GATES = Object.values(GateType);
+const EMPTY_RULES: Record<string, DeckEmptyRule> = { r: 'RESHUFFLE', e: 'END_GAME' };
+
+export interface SharedPosition {
+  layout: CircuitLayout;
+  inputs: (0 | 1)[]; // As they stand, FLIPs included
+  gates: { gate: GateType | null; locked: boolean }[]; // One per slot
+  flippedInputs: number[];
+  hands: Record<PlayerId, Card[] | number>; // A number when the hand is redacted: only its size is shared
+  turn: PlayerId;
+  turnCount: number;
+  deck: { composition: DeckComposition; emptyRule: DeckEmptyRule };
+  seed: string | null; // Null when not shared
+}
+
+export const sharePosition = (state: GameState, redactHands: boolean): SharedPosition => {
+  const hand = (id: PlayerId) => (redactHands ? state.players[id].hand.length : state.players[id].hand);
+  return {
+    layout: state.layout,
+    inputs: state.inputs,
+    gates: state.board.map(n => ({ gate: n.gate, locked: !!n.locked })),
+    flippedInputs: state.flippedInputs,
+    hands: { P1: hand('P1'), P2: hand('P2') },
+    turn: state.currentPlayer,
+    turnCount: state.turnCount,
+    deck: { composition: state.deck.composition, emptyRule: state.deck.emptyRule },
+    seed: redactHands || !state.seed ? null : state.seed,
+  };
+};
+
+// ---------------- Encoding ----------------
+
+const sameShape = (a: CircuitLayout, b: CircuitLayout): boolean =>
+  a.inputCount === b.inputCount && JSON.stringify(a.slots) === JSON.stringify(b.slots);
+
+// Trees and built-in layouts by name, anything else wire by wire:
+// c<inputs>_<sources of slot 0>_<sources of slot 1>...
+const encodeLayout = (layout: CircuitLayout): string => {
+  const depth = /^tree-(\d+)$/.exec(layout.id);
+  if (depth && sameShape(layout, treeLayout(Number(depth[1])))) return `t${depth[1]}`;
+  const builtin = BUILTIN_LAYOUTS.find(l => sameShape(l, layout));
+  if (builtin) return `b${builtin.id}`;
+  return `c${layout.inputCount}_${layout.slots.map(refs => refs.join('')).join('_')}`;
+};
+
+const cardChar = (card: Card) => String.fromCharCode(97 + CARD_TYPES.indexOf(card));
+
+const encodeHand = (hand: Card[] | number) =>
+  typeof hand === 'number' ? `-${hand}` : hand.map(cardChar).join('');
+
+export const encodePosition = (pos: SharedPosition): string => [
+  SHARE_VERSION,
+  encodeLayout(pos.layout),
+  pos.inputs.join(''),
+  // One character per slot: - when empty, a letter for the gate, uppercase if locked
+  pos.gates.map(({ gate, locked }) => {
+    if (gate === null) return '-';
+    const c = String.fromCharCode(97 + GATES.indexOf(gate));
+    return locked ? c.toUpperCase() : c;
+  }).join(''),
+  pos.flippedInputs.map(i => i.toString(36)).join(''),
+  encodeHand(pos.hands.P1),
+  encodeHand(pos.hands.P2),
+  pos.turn === 'P1' ? 1 : 2,
+  pos.turnCount.toString(36),
+  `${pos.deck.emptyRule === 'RESHUFFLE' ? 'r' : 'e'}${CARD_TYPES.map(c => pos.deck.composition[c].toString(36)).join('_')}`,
+  encodeURIComponent(pos.seed ?? ''),
+].join('.');
+
+// ---------------- Decoding ----------------
+
+const decodeLayout = (field: string): CircuitLayout => {
+  const kind = field[0];
+  const body = field.slice(1);
+  if (kind === 't') {
+    if (!/^[2-5]$/.test(body)) throw new Error(`Unknown tree depth "${body}" (expected 2-5).`);
+    return treeLayout(Number(body));
+  }
+  if (kind === 'b') {
+    const builtin = BUILTIN_LAYOUTS.find(l => l.id === body);
+    if (!builtin) throw new Error(`Unknown built-in layout "${body}".`);
+    return builtin;
+  }
+  if (kind === 'c') {
+    const [count, ...slots] = body.split('_');
+    if (!/^\d+$/.test(count)) throw new Error('Custom layout has no input count.');
+    return parseLayout({
+      id: 'shared',
+      name: 'Shared circuit',
+      inputCount: Number(count),
+      slots: slots.map((refs, id) => {
+        if (!/^([is]\d+)+$/.test(refs)) throw new Error(`Custom layout slot ${id} has malformed sources "${refs}".`);
+        return refs.match(/[is]\d+/g)!;
+      }),
+    });
+  }
+  throw new Error(`Unknown layout kind "${field}".`);
+};
+
+const decodeCard = (c: string): Card => {
+  const index = c.charCodeAt(0) - 97;
+  if (c.length !== 1 || index < 0 || index >= CARD_TYPES.length) throw new Error(`Unknown card "${c}".`);
+  return CARD_TYPES[index];
+};
+
+const decodeHand = (field: string, id: PlayerId): Card[] | number => {
+  if (field.startsWith('-')) {
+    if (!/^-\d$/.test(field) || Number(field[1]) > HAND_SIZE) throw new Error(`${id} hand size "${field.slice(1)}" is not 0-${HAND_SIZE}.`);
+    return Number(field[1]);
+  }
+  if (field.length > HAND_SIZE) throw new Error(`${id} hand has ${field.length} cards (at most ${HAND_SIZE}).`);
+  return [...field].map(decodeCard);
+};
+
+// Rebuild a position from a code, refusing any link that doesn't fit its circuit
+export const decodePosition = (code: string): SharedPosition => {
+  const fields = code.trim().split('.');
+  if (fields[0] !== String(SHARE_VERSION)) throw new Error(`Unsupported link version "${fields[0]}" (expected ${SHARE_VERSION}).`);
+  if (fields.length < 11) throw new Error(`Link has ${fields.length} of 11 fields; it may have been cut off.`);
+  // The seed is last and may itself contain dots
+  const [, layoutField, inputField, boardField, flippedField, p1Field, p2Field, turnField, countField, deckField] = fields;
+  const seedField = fields.slice(10).join('.');
+
+  const layout = decodeLayout(layoutField);
+
+  if (inputField.length !== layout.inputCount || !/^[01]*$/.test(inputField)) {
+    throw new Error(`Inputs must be ${layout.inputCount} bits, got "${inputField}".`);
+  }
+  const inputs = [...inputField].map(Number) as (0 | 1)[];
+
+  if (boardField.length !== layout.slots.length) {
+    throw new Error(`Board has ${boardField.length} slots; the layout has ${layout.slots.length}.`);
+  }
+  const gates = [...boardField].map((c, id) => {
+    if (c === '-') return { gate: null, locked: false };
+    const index = c.toLowerCase().charCodeAt(0) - 97;
+    if (!/^[a-z]$/i.test(c) || index >= GATES.length) throw new Error(`Slot ${id} has unknown gate "${c}".`);
+    const gate = GATES[index];
+    if (GATE_ARITY[gate] > layout.slots[id].length) {
+      throw new Error(`${gate} does not fit slot ${id}, which has ${layout.slots[id].length} sources.`);
+    }
+    return { gate, locked: c !== c.toLowerCase() };
+  });
+
+  const flippedInputs = [...flippedField].map(c => {
+    const index = parseInt(c, 36);
+    if (!/^[0-9a-z]$/.test(c) || index >= layout.inputCount) throw new Error(`Flipped input "${c}" does not exist.`);
+    return index;
+  });
+  if (new Set(flippedInputs).size !== flippedInputs.length) throw new Error('An input is flipped more than once.');
+
+  const hands = { P1: decodeHand(p1Field, 'P1'), P2: decodeHand(p2Field, 'P2') };
+
+  if (turnField !== '1' && turnField !== '2') throw new Error(`Turn must be 1 or 2, got "${turnField}".`);
+  if (!/^[0-9a-z]{1,4}$/.test(countField)) throw new Error(`Invalid turn count "${countField}".`);
+
+  const emptyRule = EMPTY_RULES[deckField[0]];
+  const counts = deckField.slice(1).split('_');
+  if (!emptyRule) throw new Error(`Unknown empty-deck rule "${deckField[0] ?? ''}".`);
+  if (counts.length !== CARD_TYPES.length || counts.some(n => !/^[0-9a-z]{1,3}$/.test(n))) {
+    throw new Error(`Deck must list ${CARD_TYPES.length} card counts.`);
+  }
+  const composition = Object.fromEntries(CARD_TYPES.map((c, i) => [c, parseInt(counts[i], 36)])) as DeckComposition;
+  if (deckSize(composition) === 0) throw new Error('Deck is empty.');
+  checkLayoutFitsDeck(layout, composition);
+
+  let seed: string | null;
+  try {
+    seed = decodeURIComponent(seedField).trim() || null;
+  } catch {
+    throw new Error('Seed is not valid URL text.');
+  }
+
+  return {
+    layout,
+    inputs,
+    gates,
+    flippedInputs,
+    hands,
+    turn: turnField === '1' ? 'P1' : 'P2',
+    turnCount: parseInt(countField, 36),
+    deck: { composition, emptyRule },
+    seed,
+  };
+};
+
+// A game at the shared position. The draw pile is the seed's deck minus the
+// cards in play; redacted hands are dealt from its top, and cards already
+// discarded are back in it. Without a seed the pile comes from a random one,
+// which is only good for showing the board.
+export const positionToState = (pos: SharedPosition): GameState => {
+  const fresh = createGame({
+    isAI: false,
+    seed: pos.seed ?? undefined,
+    layout: pos.layout,
+    deckComposition: pos.deck.composition,
+    deckEmptyRule: pos.deck.emptyRule,
+  });
+  const pile = [...fresh.players.P2.hand, ...fresh.players.P1.hand, ...fresh.deck.drawPile];
+  const take = (card: Card) => {
+    const i = pile.lastIndexOf(card);
+    if (i !== -1) pile.splice(i, 1);
+  };
+  pos.gates.forEach(({ gate }) => gate && take(gate));
+  (['P1', 'P2'] as PlayerId[]).forEach(id => {
+    const hand = pos.hands[id];
+    if (typeof hand !== 'number') hand.forEach(take);
+  });
+  const hand = (id: PlayerId): Card[] => {
+    const known = pos.hands[id];
+    return typeof known === 'number' ? pile.splice(Math.max(0, pile.length - known), known).reverse() : known;
+  };
+  const players = {
+    P1: { ...fresh.players.P1, hand: hand('P1') },
+    P2: { ...fresh.players.P2, hand: hand('P2') },
+  };
+
+  const board = evaluateBoard(
+    fresh.board.map((node, i) => ({ ...node, gate: pos.gates[i].gate, ...(pos.gates[i].locked ? { locked: true } : {}) })),
+    pos.inputs
+  );
+  const winner = checkWinCondition(board);
+
+  return {
+    ...fresh,
+    board,
+    inputs: pos.inputs,
+    flippedInputs: pos.flippedInputs,
+    players,
+    deck: { ...fresh.deck, drawPile: pile },
+    currentPlayer: pos.turn,
+    turnCount: pos.turnCount,
+    winner,
+    endReason: winner ? 'BOARD_FULL' : null,
+  };
+};
+
+// ---------------- Links ----------------
+
+export const shareUrl = (code: string): string =>
+  `${location.origin}${location.pathname}#${SHARE_PARAM}=${code}`;
+
+// The code in a location hash, or null if the page wasn't opened from a link
+export const readSharedCode = (hash: string): string | null => {
+  const match = new RegExp(`^#${SHARE_PARAM}=(.*)$`).exec(hash);
+  return match ? match[1] : null;
+};
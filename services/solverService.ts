@@ -0,0 +1,362 @@
+import { BoardNode, Card, DeckState, GameAction, GameState, GateType, PlayerId, SolverLevel } from '../types';
+import { evaluateBoard, checkWinCondition, evaluateGate, fitsSlot, topologicalOrder, GATE_ARITY } from './logicService';
+import { HAND_SIZE, getOpponent } from './gameEngine';
+import { countCards } from './deckService';
+import { isGateCard } from './actionCardService';
+
+// Local game-tree opponent.
+//
+// The search is an expectiminimax over the real rules: P1 maximises and P2
+// minimises the probability that the root ends at 1. Card draws are chance
+// nodes weighted by what is left in the draw pile (the solver never looks at
+// the pile's order, and treats draws as independent). A freshly drawn card
+// only matters once its owner moves again, so draws are kept as unknown
+// (null) hand entries and resolved at the start of that player's turn, which
+// keeps the tree much smaller without changing the expected values.
+// Action cards are never played by the search: they sit in hand as dead
+// cards, and draws are weighted over the gates left in the pile.
+// Unless the opponent's hand is face up, its cards are unknown entries too,
+// drawn from the cards the mover has not seen (the pile and that hand).
+
+type Hand = (Card | null)[];
+
+interface SearchState {
+  board: BoardNode[];
+  hands: Record<PlayerId, Hand>;
+  turn: PlayerId;
+}
+
+interface LevelConfig {
+  depth: number; // Plies searched in the middle game
+  endgameSlots: number; // Search to the end of the game once this few slots are empty
+  nodeBudget: number; // Deepening stops once a search would expand more nodes than this
+}
+
+const LEVELS: Record<SolverLevel, LevelConfig> = {
+  EASY: { depth: 1, endgameSlots: 0, nodeBudget: Infinity },
+  MEDIUM: { depth: 2, endgameSlots: 2, nodeBudget: 10000 },
+  HARD: { depth: 3, endgameSlots: 3, nodeBudget: 60000 },
+  PERFECT: { depth: Infinity, endgameSlots: Infinity, nodeBudget: Infinity },
+};
+
+// PERFECT searches the whole game from every position. That takes seconds
+// on a 3 slot board and far too long on anything larger.
+export const PERFECT_MAX_SLOTS = 3;
+
+export const isSolverLevelAvailable = (level: SolverLevel, slotCount: number): boolean =>
+  level !== 'PERFECT' || slotCount <= PERFECT_MAX_SLOTS;
+
+// What a level actually does, for the level picker. Below PERFECT only the
+// endgame is searched to the end; before that the solver plays on estimates.
+export const describeSolverLevel = (level: SolverLevel): string => {
+  const { depth, endgameSlots } = LEVELS[level];
+  if (endgameSlots === Infinity) {
+    return `Searches every move to the end of the game. Only on boards of up to ${PERFECT_MAX_SLOTS} slots.`;
+  }
+  const lookahead = `Looks ${depth} ${depth === 1 ? 'move' : 'moves'} ahead`;
+  return endgameSlots === 0
+    ? `${lookahead}.`
+    : `${lookahead}, and searches to the end once ${endgameSlots} or fewer slots are empty.`;
+};
+
+// Thrown inside a search that ran over its node budget
+class BudgetExceeded extends Error {}
+
+const GATES = Object.values(GateType);
+
+type GateOdds = Record<GateType, number>; // Probability of drawing each gate
+
+// Odds of the next draw, from the cards that could come off the draw pile
+// and any the mover cannot see
+const drawOdds = (deck: DeckState, unseen: Card[] = []): GateOdds => {
+  let pool = [...deck.drawPile, ...unseen].filter(isGateCard);
+  if (pool.length === 0 && deck.emptyRule === 'RESHUFFLE') pool = deck.discardPile.filter(isGateCard);
+  if (pool.length === 0) pool = GATES.filter(g => deck.composition[g] > 0);
+  if (pool.length === 0) pool = GATES;
+  const counts = countCards(pool);
+  return Object.fromEntries(GATES.map(g => [g, counts[g] / pool.length])) as GateOdds;
+};
+
+// All multisets of `k` gates with the probability of drawing them
+const createDrawOutcomes = (odds: GateOdds) => {
+  const cache = new Map<number, { gates: GateType[]; p: number }[]>();
+  return (k: number) => {
+    if (cache.has(k)) return cache.get(k)!;
+    let outcomes: { gates: GateType[]; p: number }[] = [{ gates: [], p: 1 }];
+    for (let i = 0; i < k; i++) {
+      outcomes = outcomes.flatMap(o =>
+        GATES.filter(g => odds[g] > 0).map(g => ({ gates: [...o.gates, g], p: o.p * odds[g] }))
+      );
+    }
+    // Merge orderings of the same multiset
+    const merged = new Map<string, { gates: GateType[]; p: number }>();
+    for (const o of outcomes) {
+      const sorted = [...o.gates].sort();
+      const key = sorted.join(',');
+      const existing = merged.get(key);
+      if (existing) existing.p += o.p;
+      else merged.set(key, { gates: sorted, p: o.p });
+    }
+    const result = [...merged.values()];
+    cache.set(k, result);
+    return result;
+  };
+};
+
+// Truth table rows (bit k = source k) on which each gate outputs 1
+const ONE_ROWS = Object.fromEntries(GATES.map(gate => {
+  const rows: number[] = [];
+  for (let row = 0; row < 2 ** GATE_ARITY[gate]; row++) {
+    const bit = (k: number) => ((row >> k) & 1) as 0 | 1;
+    if (evaluateGate(gate, bit(0), bit(1), bit(2)) === 1) rows.push(row);
+  }
+  return [gate, rows];
+})) as Record<GateType, number[]>;
+
+// Probability that each node outputs 1 if every empty slot were filled with a
+// freshly drawn gate. Used as the static evaluation at the search horizon.
+const rootProbability = (board: BoardNode[], inputs: (0 | 1)[], odds: GateOdds): number => {
+  // Sources are treated as independent (only approximate where a signal
+  // fans out), so weight each truth table row by the chance of its inputs
+  const gateProbability = (gate: GateType, sources: number[]): number => {
+    const arity = GATE_ARITY[gate];
+    let p = 0;
+    for (const row of ONE_ROWS[gate]) {
+      let weight = 1;
+      for (let k = 0; k < arity; k++) weight *= (row >> k) & 1 ? sources[k] : 1 - sources[k];
+      p += weight;
+    }
+    return p;
+  };
+
+  const probability: number[] = new Array(board.length);
+  for (const i of topologicalOrder(board)) {
+    const sources = board[i].sources.map(source =>
+      source.kind === 'INPUT' ? inputs[source.index] : probability[source.index]
+    );
+    const gate = board[i].gate;
+    if (gate) {
+      probability[i] = gateProbability(gate, sources);
+      continue;
+    }
+    // Only gates that fit the slot can end up in it
+    let total = 0;
+    let weighted = 0;
+    for (const g of GATES) {
+      if (odds[g] === 0 || !fitsSlot(g, board[i])) continue;
+      total += odds[g];
+      weighted += odds[g] * gateProbability(g, sources);
+    }
+    probability[i] = total === 0 ? 0.5 : weighted / total;
+  }
+
+  return probability[0];
+};
+
+// Distinct moves for the player to act, in a stable order: placements by slot
+// then by hand position, and the discard last.
+const listMoves = (board: BoardNode[], hand: Hand): { slotId: number; handIndex: number }[] => {
+  const moves: { slotId: number; handIndex: number }[] = [];
+  for (const node of board) {
+    if (node.gate !== null) continue;
+    const seen = new Set<GateType>();
+    hand.forEach((gate, handIndex) => {
+      if (gate === null || !isGateCard(gate) || seen.has(gate) || !fitsSlot(gate, node)) return;
+      seen.add(gate);
+      moves.push({ slotId: node.id, handIndex });
+    });
+  }
+  return moves;
+};
+
+const keyOf = (s: SearchState, depth: number) =>
+  `${s.board.map(n => n.gate ?? '-').join('')}|${[...s.hands.P1].sort().join()}|${[...s.hands.P2].sort().join()}|${s.turn}|${depth}`;
+
+const createSearch = (inputs: (0 | 1)[], odds: GateOdds, nodeBudget: number) => {
+  const memo = new Map<string, number>();
+  const drawOutcomes = createDrawOutcomes(odds);
+  let expanded = 0;
+
+  const place = (s: SearchState, slotId: number, handIndex: number): SearchState => {
+    const hand = [...s.hands[s.turn]];
+    const [gate] = hand.splice(handIndex, 1);
+    hand.push(null);
+    const board = [...s.board];
+    board[slotId] = { ...board[slotId], gate: gate as GateType }; // listMoves only offers gates
+    return {
+      board: evaluateBoard(board, inputs),
+      hands: { ...s.hands, [s.turn]: hand },
+      turn: getOpponent(s.turn),
+    };
+  };
+
+  const discard = (s: SearchState): SearchState => ({
+    board: s.board,
+    hands: { ...s.hands, [s.turn]: Array.from({ length: HAND_SIZE }, () => null) },
+    turn: getOpponent(s.turn),
+  });
+
+  // Value of a state whose mover holds a fully known hand
+  const decide = (s: SearchState, depth: number): number => {
+    const maximise = s.turn === 'P1';
+    let best = maximise ? -Infinity : Infinity;
+    const consider = (v: number) => {
+      best = maximise ? Math.max(best, v) : Math.min(best, v);
+    };
+    for (const move of listMoves(s.board, s.hands[s.turn])) {
+      consider(search(place(s, move.slotId, move.handIndex), depth - 1));
+    }
+    consider(search(discard(s), depth - 1));
+    return best;
+  };
+
+  // Value (probability P1 wins) of any state, resolving pending draws first
+  const search = (s: SearchState, depth: number): number => {
+    const winner = checkWinCondition(s.board);
+    if (winner) return winner === 'P1' ? 1 : winner === 'P2' ? 0 : 0.5;
+    if (++expanded > nodeBudget) throw new BudgetExceeded();
+    if (depth <= 0) return rootProbability(s.board, inputs, odds);
+
+    const key = keyOf(s, depth);
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    const hand = s.hands[s.turn];
+    const known = hand.filter((g): g is Card => g !== null);
+    let value: number;
+    if (known.length === hand.length) {
+      value = decide(s, depth);
+    } else {
+      value = 0;
+      for (const outcome of drawOutcomes(hand.length - known.length)) {
+        const resolved = { ...s, hands: { ...s.hands, [s.turn]: [...known, ...outcome.gates] } };
+        value += outcome.p * decide(resolved, depth);
+      }
+    }
+
+    memo.set(key, value);
+    return value;
+  };
+
+  // Budgets apply per deepening iteration
+  const resetBudget = () => {
+    expanded = 0;
+  };
+
+  return { search, place, discard, resetBudget };
+};
+
+// Pick a move for `playerId` by searching the game tree at the given level.
+// The search deepens one ply at a time and keeps the deepest result that fit
+// in the level's node budget, so large boards stay responsive.
+// Deterministic: equal-valued moves are broken by slot, then hand order, and
+// placing is preferred over discarding. The opponent's hand is only read
+// when it is face up (hidden hands off).
+export const chooseSolverMove = (
+  state: GameState,
+  playerId: PlayerId,
+  level: SolverLevel,
+  opponentHandVisible = false
+): GameAction => {
+  const { depth, endgameSlots, nodeBudget } = LEVELS[level];
+  const emptySlots = state.board.filter(n => n.gate === null).length;
+  // Each remaining slot needs one ply; leave room for one discard
+  const targetDepth = emptySlots <= endgameSlots ? emptySlots + 1 : depth;
+
+  const opponent = getOpponent(playerId);
+  const opponentHand = state.players[opponent].hand;
+  const root: SearchState = {
+    board: state.board,
+    hands: {
+      [playerId]: state.players[playerId].hand,
+      [opponent]: opponentHandVisible ? opponentHand : opponentHand.map(() => null),
+    } as Record<PlayerId, Hand>,
+    turn: playerId,
+  };
+  const odds = drawOdds(state.deck, opponentHandVisible ? [] : opponentHand);
+  const { search, place, discard, resetBudget } = createSearch(state.inputs, odds, nodeBudget);
+  // Convert to "higher is better for the mover"
+  const score = (p1WinChance: number) => (playerId === 'P1' ? p1WinChance : 1 - p1WinChance);
+
+  const bestAt = (searchDepth: number): GameAction => {
+    let bestAction: GameAction = { type: 'DISCARD', playerId };
+    let bestScore = score(search(discard(root), searchDepth - 1));
+
+    for (const move of listMoves(root.board, root.hands[playerId])) {
+      const value = score(search(place(root, move.slotId, move.handIndex), searchDepth - 1));
+      const isBest = bestAction.type === 'DISCARD' ? value >= bestScore : value > bestScore;
+      if (isBest) {
+        bestScore = value;
+        bestAction = { type: 'PLACE', playerId, slotId: move.slotId, handIndex: move.handIndex };
+      }
+    }
+    return bestAction;
+  };
+
+  // With no budget there is nothing to fall back on, so go straight to full depth
+  if (nodeBudget === Infinity) return bestAt(targetDepth);
+
+  // A one ply search is cheap enough to always finish
+  let best = bestAt(1);
+  for (let d = 2; d <= targetDepth; d++) {
+    resetBudget();
+    try {
+      best = bestAt(d);
+    } catch (e) {
+      if (e instanceof BudgetExceeded) break;
+      throw e;
+    }
+  }
+  return best;
+};
+
+// ---------------- Off the main thread ----------------
+
+// Messages to and from solverWorker
+export interface SolverRequest {
+  id: number;
+  state: GameState;
+  playerId: PlayerId;
+  level: SolverLevel;
+  opponentHandVisible: boolean;
+}
+export type SolverReply = { id: number; action: GameAction } | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (reply: SolverReply) => void>();
+
+// chooseSolverMove in a worker, so a deep search never freezes the page
+export const requestSolverMove = (
+  state: GameState,
+  playerId: PlayerId,
+  level: SolverLevel,
+  opponentHandVisible = false
+): Promise<GameAction> => {
+  // No worker support: let the AI's thinking state render before searching
+  if (typeof Worker === 'undefined') {
+    return new Promise(resolve => setTimeout(resolve, 0)).then(() => chooseSolverMove(state, playerId, level, opponentHandVisible));
+  }
+  if (!worker) {
+    worker = new Worker(new URL('./solverWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<SolverReply>) => {
+      pendingRequests.get(e.data.id)?.(e.data);
+      pendingRequests.delete(e.data.id);
+    };
+    // A crashed worker answers nothing: fail every pending search and start
+    // a fresh worker for the next one
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      pendingRequests.forEach((settle, id) => settle({ id, error: `Solver worker crashed: ${e.message || 'unknown error'}` }));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  const id = nextRequestId++;
+  const request: SolverRequest = { id, state, playerId, level, opponentHandVisible };
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, reply => ('action' in reply ? resolve(reply.action) : reject(new Error(reply.error))));
+    worker!.postMessage(request);
+  });
+};
@@ -0,0 +1,13 @@
+import { chooseSolverMove, SolverReply, SolverRequest } from './solverService';
+
+// Runs requestSolverMove's searches off the main thread
+self.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const { id, state, playerId, level, opponentHandVisible } = e.data;
+  let reply: SolverReply;
+  try {
+    reply = { id, action: chooseSolverMove(state, playerId, level, opponentHandVisible) };
+  } catch (err) {
+    reply = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(reply);
+};
@@ -0,0 +1,55 @@
+import { GameAction, GameState, PlayerId } from '../types';
+import { reduce } from './gameEngine';
+
+// Undo/redo over the engine's action history.
+//
+// states[i] is the position after the first i actions, so states[0] is the
+// opening position and each entry's `moves` is the action history up to it.
+// Because every state carries its position in the seeded random stream,
+// stepping back restores the exact hands that were drawn, and redoing an
+// action reproduces the same draws.
+export interface UndoStack {
+  states: GameState[];
+  cursor: number; // Index of the current position
+}
+
+export const createUndoStack = (initial: GameState): UndoStack => ({ states: [initial], cursor: 0 });
+
+export const currentState = (stack: UndoStack): GameState => stack.states[stack.cursor];
+
+// Apply an action at the current position, dropping any redo entries
+export const commitAction = (stack: UndoStack, action: GameAction): UndoStack => {
+  const current = currentState(stack);
+  const next = reduce(current, action);
+  if (next === current) return stack; // Rejected by the engine
+  return { states: [...stack.states.slice(0, stack.cursor + 1), next], cursor: stack.cursor + 1 };
+};
+
+export const canUndo = (stack: UndoStack): boolean => stack.cursor > 0;
+export const canRedo = (stack: UndoStack): boolean => stack.cursor < stack.states.length - 1;
+
+export const undo = (stack: UndoStack): UndoStack =>
+  canUndo(stack) ? { ...stack, cursor: stack.cursor - 1 } : stack;
+
+export const redo = (stack: UndoStack): UndoStack =>
+  canRedo(stack) ? { ...stack, cursor: stack.cursor + 1 } : stack;
+
+// Rewind to just before `playerId`'s most recent decision, undoing any
+// opponent moves made since. Used against an AI so undo skips its replies.
+export const undoToPlayer = (stack: UndoStack, playerId: PlayerId): UndoStack => {
+  const moves = currentState(stack).moves;
+  for (let i = moves.length - 1; i >= 0; i--) {
+    if (moves[i].action.playerId === playerId) return { ...stack, cursor: i };
+  }
+  return stack;
+};
+
+// Step forward to the next position where `playerId` has to decide again
+// (or the game ended), replaying the opponent's recorded replies.
+export const redoToPlayer = (stack: UndoStack, playerId: PlayerId): UndoStack => {
+  for (let i = stack.cursor + 1; i < stack.states.length; i++) {
+    const state = stack.states[i];
+    if (state.currentPlayer === playerId || state.winner) return { ...stack, cursor: i };
+  }
+  return stack;
+};
@@ -4,8 +4,25 @@ export enum GateType {
   XOR = 'XOR',
   NAND = 'NAND',
   NOR = 'NOR',
+  XNOR = 'XNOR',
+  NOT = 'NOT', // Unary: reads the first source only
+  BUFFER = 'BUFFER', // Unary: passes the first source through
+  AND3 = 'AND3',
+  OR3 = 'OR3',
+  MAJ3 = 'MAJ3', // 1 when at least two of three sources are 1
 }
 
+// Special cards dealt from the same deck as gates. Each is played as a
+// whole turn instead of placing a gate.
+export enum ActionCardType {
+  OVERWRITE = 'OVERWRITE', // Replace an unlocked gate with one from your hand
+  LOCK = 'LOCK', // Make a placed gate immune to OVERWRITE
+  FLIP = 'FLIP', // Invert a fixed input; each input can only be flipped once
+  PEEK = 'PEEK', // Look at the opponent's hand
+}
+
+export type Card = GateType | ActionCardType;
+
 export type PlayerId = 'P1' | 'P2';
 
 export interface Player {
@@ -13,34 +30,307 @@ export interface Player {
   name: string;
   targetValue: 0 | 1; // P1 wants 1 (True), P2 wants 0 (False)
   color: string;
-  hand: GateType[];
+  hand: Card[];
+}
+
+// Where a slot reads a signal from: one of the fixed inputs or another slot's output
+export interface SignalSource {
+  kind: 'INPUT' | 'SLOT';
+  index: number;
 }
 
-// Tree structure indices:
-//       0
-//    1     2
-//  3   4 5   6
-// Inputs: 0 1 2 3 4 5 6 7 (8 inputs feed into 3,4,5,6)
+// Slots of the circuit graph; slot 0 drives the lock (the root).
+// A slot's output or an input may feed any number of slots.
 export interface BoardNode {
   id: number;
+  sources: SignalSource[]; // In wiring order; a gate reads the first ones it needs
   gate: GateType | null;
+  locked?: boolean; // Pre-placed puzzle gate, or a gate hit by LOCK; can never be replaced
   value: 0 | 1 | null; // The calculated output of this node
 }
 
+// Circuit shape as stored in JSON. Slot i reads the sources listed at
+// slots[i], written "i3" for input 3 or "s2" for the output of slot 2.
+export interface CircuitLayout {
+  id: string;
+  name: string;
+  description?: string;
+  inputCount: number;
+  slots: string[][];
+}
+
+// Number of copies of each card in a deck
+export type DeckComposition = Record<Card, number>;
+
+// What happens when a card must be drawn from an empty draw pile
+export type DeckEmptyRule = 'RESHUFFLE' | 'END_GAME';
+
+export interface DeckState {
+  composition: DeckComposition;
+  emptyRule: DeckEmptyRule;
+  drawPile: Card[]; // Top card is the last element
+  discardPile: Card[];
+}
+
+export type GameEndReason = 'BOARD_FULL' | 'DECK_EMPTY' | 'MOVE_LIMIT' | 'TIMEOUT';
+
+// What happens to a player whose clock runs out
+export type TimeoutRule = 'AUTO_DISCARD' | 'RANDOM_PLACE' | 'LOSS';
+
+export interface TimeControl {
+  initialMs: number; // Each player's starting time, or the limit for every move when perMove is set
+  incrementMs: number; // Added to the mover's clock after each move
+  perMove: boolean; // Unused time is not carried over to the next move
+  timeoutRule: TimeoutRule;
+}
+
+export interface ClockState {
+  control: TimeControl;
+  remainingMs: Record<PlayerId, number>; // Left at the start of each player's next turn
+}
+
+// Which opponent plays P2 in single-player games
+export type AIEngine = 'CORTEX' | 'SOLVER'; // Gemini LLM or the local game-tree solver
+export type SolverLevel = 'EASY' | 'MEDIUM' | 'HARD' | 'PERFECT';
+
 export interface GameState {
-  board: BoardNode[]; // Array of 7 nodes (0-6)
-  inputs: (0 | 1)[]; // Array of 8 fixed inputs
+  layout: CircuitLayout; // Shape of the circuit being played
+  seed: string; // Seed the inputs and draws were generated from
+  rngState: number; // Current position in the seeded random stream
+  board: BoardNode[]; // One node per layout slot
+  inputs: (0 | 1)[]; // layout.inputCount fixed inputs
+  players: Record<PlayerId, Player>;
+  deck: DeckState;
   currentPlayer: PlayerId;
   winner: PlayerId | 'DRAW' | null;
+  endReason: GameEndReason | null;
+  puzzle: PuzzleRules | null; // Set for single-player puzzles
+  clock: ClockState | null; // Set for timed games
+  flippedInputs: number[]; // Inputs inverted by FLIP, in the order they were flipped
+  peeks: Record<PlayerId, PeekRecord | null>; // What each player last saw of the opponent's hand
   turnCount: number;
   history: string[]; // For commentary context
+  moves: MoveRecord[]; // Every applied action, in order
   isAI: boolean; // Is P2 an AI?
-  aiThinking: boolean;
+  aiEngine: AIEngine;
+  aiLevel: SolverLevel; // Only used by the SOLVER engine
+}
+
+export interface PeekRecord {
+  hand: Card[];
+  turn: number; // turnCount when the PEEK was played
+}
+
+// Actions understood by the game engine reducer. In timed games an action
+// carries the time its mover spent on it. TIMEOUT is sent when the mover's
+// clock runs out; the engine then plays the penalty move for them, marked
+// with timedOut.
+// For the action cards, handIndex is the action card itself; OVERWRITE also
+// names the gate card (gateIndex) that goes into the slot.
+export type GameAction =
+  | ({ type: 'PLACE'; playerId: PlayerId; slotId: number; handIndex: number } & ActionTiming)
+  | ({ type: 'DISCARD'; playerId: PlayerId } & ActionTiming)
+  | ({ type: 'TIMEOUT'; playerId: PlayerId } & ActionTiming)
+  | ({ type: 'OVERWRITE'; playerId: PlayerId; handIndex: number; slotId: number; gateIndex: number } & ActionTiming)
+  | ({ type: 'LOCK'; playerId: PlayerId; handIndex: number; slotId: number } & ActionTiming)
+  | ({ type: 'FLIP'; playerId: PlayerId; handIndex: number; inputIndex: number } & ActionTiming)
+  | ({ type: 'PEEK'; playerId: PlayerId; handIndex: number } & ActionTiming);
+
+export interface ActionTiming {
+  elapsedMs?: number;
+  timedOut?: boolean;
+}
+
+// One applied action together with the hand the mover held at that moment
+export interface MoveRecord {
+  action: GameAction;
+  hand: Card[];
+}
+
+export type ActionErrorCode =
+  | 'GAME_OVER'
+  | 'NOT_YOUR_TURN'
+  | 'INVALID_SLOT'
+  | 'SLOT_OCCUPIED'
+  | 'INVALID_HAND_INDEX'
+  | 'GATE_DOES_NOT_FIT' // The gate needs more sources than the slot has
+  | 'NOT_A_GATE' // Only gate cards can be placed
+  | 'WRONG_CARD' // The card played is not the one the action needs
+  | 'SLOT_EMPTY' // OVERWRITE and LOCK need a placed gate
+  | 'SLOT_LOCKED'
+  | 'INVALID_INPUT'
+  | 'INPUT_ALREADY_FLIPPED'
+  | 'MALFORMED_MOVE' // An AI answer that doesn't describe an action
+  | 'CARD_NOT_IN_HAND'
+  | 'UNTIMED_GAME'; // TIMEOUT in a game without clocks
+
+export interface ActionError {
+  code: ActionErrorCode;
+  message: string;
 }
 
 export interface AIMove {
-  actionType: 'PLACE' | 'DISCARD';
-  slotId?: number;
-  gateType?: GateType;
+  actionType: 'PLACE' | 'DISCARD' | 'OVERWRITE' | 'LOCK' | 'FLIP' | 'PEEK';
+  slotId?: number; // PLACE, OVERWRITE and LOCK
+  gateType?: GateType; // PLACE and OVERWRITE
+  inputIndex?: number; // FLIP
   reasoning?: string;
-}
\ No newline at end of file
+}
+
+// Card faces: procedural schematic symbols, or AI-generated art as a skin
+export type CardArt = 'ANSI' | 'IEC' | 'AI';
+
+// Sound levels, each 0-1; SFX is scaled by the master volume
+export interface AudioSettings {
+  master: number;
+  sfx: number;
+  muted: boolean;
+}
+
+// Backend for commentary, Cortex moves and gate art
+export type LLMProviderId = 'GEMINI' | 'OPENAI' | 'MOCK';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string; // Text model for commentary and moves
+  imageModel: string; // Empty to skip generated gate art
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:8080/v1
+  apiKey: string; // Empty to use the build-time Gemini key (or none)
+}
+
+// What a position looks like to Cortex when it has to move. Only what the
+// mover could see at the table: never the opponent's hand or the draw order.
+export interface AIMoveRequest {
+  board: BoardNode[];
+  inputs: (0 | 1)[];
+  flippedInputs: number[]; // Inputs that can no longer be flipped
+  hand: Card[];
+  deck: AIDeckView;
+  peek: PeekRecord | null; // The mover's last look at the opponent's hand
+  feedback?: AIMoveFeedback; // Set when retrying after an illegal answer
+}
+
+// The deck from one player's seat. The draw pile and the opponent's hand are
+// both face down, so only their combined contents can be counted.
+export interface AIDeckView {
+  drawPileSize: number;
+  opponentHandSize: number;
+  unseen: DeckComposition; // Draw pile and opponent's hand together
+  discarded: DeckComposition;
+  emptyRule: DeckEmptyRule;
+}
+
+export interface AIMoveFeedback {
+  rejected: AIMove;
+  error: ActionError;
+  legalMoves: AIMove[];
+}
+
+export interface LLMProvider {
+  getCommentary(player: string, moveDetails: string, rootValue: 0 | 1 | null): Promise<string>;
+  getAIMove(request: AIMoveRequest): Promise<AIMove>;
+  generateGateImage(gateType: GateType): Promise<string | null>; // Data or remote URL
+}
+
+export interface CommentaryLine {
+  turn: number; // turnCount after the move being commented on (0 = match start)
+  text: string;
+}
+
+// Portable, versioned description of a whole match.
+// Enough to rebuild every position without re-running the random stream.
+export interface MatchRecord {
+  version: number;
+  createdAt: string; // ISO timestamp
+  seed: string;
+  layout: CircuitLayout;
+  inputs: (0 | 1)[]; // As they stood before the first move, so before any FLIP in `moves`
+  // The position before the first move. Games forked from a shared link
+  // start mid-game; any other game starts on an empty board with P1 to move.
+  start: {
+    gates: { gate: GateType | null; locked: boolean }[]; // One per slot
+    flippedInputs: number[];
+    turn: PlayerId;
+    turnCount: number;
+  };
+  deck: { composition: DeckComposition; emptyRule: DeckEmptyRule };
+  timeControl: TimeControl | null; // null for untimed games; moves carry their elapsedMs
+  players: Record<PlayerId, { name: string; isAI: boolean; aiEngine?: AIEngine; aiLevel?: SolverLevel }>;
+  openingHands: Record<PlayerId, Card[]>;
+  moves: MoveRecord[];
+  commentary: CommentaryLine[];
+  result: {
+    winner: PlayerId | 'DRAW' | null; // null if exported mid-game
+    rootValue: 0 | 1 | null;
+    turnCount: number;
+  };
+}
+
+// Single-player "crack the lock" puzzle as loaded from JSON
+export interface PuzzleGate {
+  slot: number;
+  gate: GateType;
+  locked?: boolean; // Defaults to true; unlocked gates may be replaced
+}
+
+export interface Puzzle {
+  id: string;
+  title: string;
+  description?: string;
+  depth: number;
+  inputs: (0 | 1)[];
+  gates: PuzzleGate[]; // Pre-placed gates
+  hand: GateType[]; // Opening hand
+  draws?: GateType[]; // Fixed draw order after the opening hand
+  target: 0 | 1; // Root value that cracks the lock
+  moveLimit: number;
+}
+
+// The parts of a puzzle the engine needs while playing it.
+// P1 is the solver; P2 stands for the lock and never moves.
+export interface PuzzleRules {
+  id: string;
+  title: string;
+  target: 0 | 1;
+  moveLimit: number;
+}
+
+// ---------------- Online play ----------------
+// Messages between the browser and the relay server (server/relayServer.ts),
+// sent as JSON over a WebSocket.
+
+// Circuit and deck for a new room. The server always rolls its own seed,
+// since whoever knows the seed knows the draw order.
+export interface OnlineGameOptions {
+  depth?: number;
+  layout?: CircuitLayout;
+  deckComposition?: DeckComposition;
+  deckEmptyRule?: DeckEmptyRule;
+}
+
+export type OpponentStatus = 'WAITING' | 'CONNECTED' | 'DISCONNECTED' | 'LEFT';
+
+// One player's view of a room. Until the game ends the opponent's hand, the
+// draw pile, the seed and the random stream position are blanked out of
+// state, and only their sizes are given.
+export interface OnlineView {
+  room: string;
+  you: PlayerId;
+  opponent: OpponentStatus;
+  state: GameState;
+  handSizes: Record<PlayerId, number>;
+  drawPileSize: number;
+}
+
+export type ClientMessage =
+  | { type: 'CREATE_ROOM'; options: OnlineGameOptions }
+  | { type: 'JOIN_ROOM'; room: string }
+  | { type: 'RESUME'; room: string; token: string } // Take a seat back after a dropped connection
+  | { type: 'ACTION'; action: GameAction }
+  | { type: 'REMATCH' }
+  | { type: 'LEAVE' };
+
+export type ServerMessage =
+  | { type: 'JOINED'; room: string; token: string; you: PlayerId }
+  | { type: 'VIEW'; view: OnlineView }
+  | { type: 'ERROR'; message: string; code?: ActionErrorCode };